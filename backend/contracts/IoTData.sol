@@ -41,6 +41,9 @@ contract IoTData is AccessControl, ReentrancyGuard {
 
     uint256 private recordCounter;
 
+    // Upper bound on readings per storeDataBatch call, keeping it under the block gas limit
+    uint256 public constant MAX_BATCH_SIZE = 100;
+
     // Events
     event DataStored(uint256 indexed recordId, string deviceId, uint256 timestamp, string dataType, string data);
     event BatchCreated(bytes32 indexed batchId, bytes32 merkleRoot, uint256 fromIndex, uint256 toIndex, uint256 timestamp);
@@ -69,6 +72,49 @@ contract IoTData is AccessControl, ReentrancyGuard {
             "Must have device or admin role"
         );
 
+        return _storeRecord(_deviceId, _data, _dataType, _location);
+    }
+
+    /**
+     * @dev Store several readings in one transaction, emitting one DataStored per record
+     */
+    function storeDataBatch(
+        string[] calldata _deviceIds,
+        string[] calldata _data,
+        string[] calldata _dataTypes,
+        string[] calldata _locations
+    ) external nonReentrant returns (uint256[] memory) {
+        require(
+            hasRole(DEVICE_ROLE, msg.sender) || hasRole(ADMIN_ROLE, msg.sender),
+            "Must have device or admin role"
+        );
+        require(_deviceIds.length > 0, "Empty batch");
+        require(_deviceIds.length <= MAX_BATCH_SIZE, "Batch too large");
+        require(
+            _data.length == _deviceIds.length &&
+            _dataTypes.length == _deviceIds.length &&
+            _locations.length == _deviceIds.length,
+            "Array length mismatch"
+        );
+
+        uint256[] memory recordIds = new uint256[](_deviceIds.length);
+        for (uint256 i = 0; i < _deviceIds.length; i++) {
+            recordIds[i] = _storeRecord(_deviceIds[i], _data[i], _dataTypes[i], _locations[i]);
+        }
+        return recordIds;
+    }
+
+    /**
+     * @dev Append one record. Its dataHash is the record's Merkle leaf:
+     * keccak256(abi.encodePacked(deviceId, block.timestamp, data, dataType, location)),
+     * with the timestamp in seconds. Off-chain trees must hash the stored record the same way.
+     */
+    function _storeRecord(
+        string calldata _deviceId,
+        string calldata _data,
+        string calldata _dataType,
+        string calldata _location
+    ) private returns (uint256) {
         bytes32 dataHash = keccak256(abi.encodePacked(_deviceId, block.timestamp, _data, _dataType, _location));
         uint256 currentRecordId = recordCounter;
         recordCounter++;
@@ -12,6 +12,16 @@ declare global {
 		// interface PageState {}
 		// interface Platform {}
 	}
+
+	// Background Sync is not in the TypeScript DOM library yet
+	interface SyncManager {
+		register(tag: string): Promise<void>;
+		getTags(): Promise<string[]>;
+	}
+
+	interface ServiceWorkerRegistration {
+		readonly sync?: SyncManager;
+	}
 }
 
 export {};
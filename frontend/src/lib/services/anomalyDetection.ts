@@ -1,198 +1,380 @@
-import type { SensorReading, AnomalyReport, SensorThresholds } from '$lib/types';
+import { get } from 'svelte/store';
+import type {
+  SensorReading,
+  AnomalyReport,
+  AnomalyDetail,
+  AnomalyDetector,
+  BaselineDetector,
+  SensorBaseline,
+  SensorThresholds
+} from '$lib/types';
+import {
+  formatValue,
+  getDisplayUnit,
+  toDisplayDelta,
+  unitSystem,
+  type UnitSystem
+} from './units';
+import { primaryValue } from './channels';
+import {
+  EWMA_LAMBDA,
+  MIN_BASELINE,
+  MIN_PROFILE,
+  getBaseline,
+  hourOf,
+  learnValue,
+  nextEwma,
+  previousValue,
+  windowMoments
+} from './baselines';
+import { resolveThresholds } from './thresholdProfiles';
 
 /**
  * Anomaly detection service for agricultural sensor data
- * Identifies potential issues in environmental readings
+ * Identifies potential issues in environmental readings, against the thresholds
+ * of the most specific matching profile and against the baseline learned for
+ * each device stream
  */
 
-// Default thresholds for different sensor types
-const DEFAULT_THRESHOLDS: Record<string, SensorThresholds> = {
-  'temperature': {
-    min: 5,
-    max: 40,
-    rateOfChangeWarning: 5, // °C per hour
-    rateOfChangeAlert: 10,  // °C per hour
-    normalRange: [15, 30]
-  },
-  'humidity': {
-    min: 20,
-    max: 95,
-    rateOfChangeWarning: 15, // % per hour
-    rateOfChangeAlert: 30,   // % per hour
-    normalRange: [40, 80]
-  },
-  'soil-moisture': {
-    min: 10,
-    max: 100,
-    rateOfChangeWarning: 20, // % per hour
-    rateOfChangeAlert: 40,   // % per hour
-    normalRange: [30, 70]
-  },
-  'light': {
-    min: 0,
-    max: 100000,
-    rateOfChangeWarning: 20000, // lux per hour
-    rateOfChangeAlert: 50000,   // lux per hour
-    normalRange: [500, 10000]
-  },
-  'co2': {
-    min: 300,
-    max: 5000,
-    rateOfChangeWarning: 500, // ppm per hour
-    rateOfChangeAlert: 1000,  // ppm per hour
-    normalRange: [400, 1200]
-  }
+/**
+ * Display names of the detectors
+ */
+export const ANOMALY_DETECTORS: Record<AnomalyDetector, string> = {
+  threshold: 'Thresholds',
+  zscore: 'Rolling z-score',
+  ewma: 'EWMA control chart',
+  diurnal: 'Hourly profile',
+  'frost-risk': 'Frost risk',
+  'disease-pressure': 'Disease pressure',
+  'irrigation-fault': 'Irrigation fault',
+  'humidity-coupling': 'Humidity coupling',
+  'stuck-value': 'Stuck value',
+  'neighbour-drift': 'Neighbour drift',
+  battery: 'Battery',
+  'signal-trend': 'Signal trend',
+  clock: 'Device clock',
+  duplicates: 'Duplicate readings'
 };
 
-// Cache for historical readings to detect rate of change
-const historicalReadings: Record<string, SensorReading[]> = {};
+// Standard scores the baseline detectors warn and alert at
+const Z_WARNING = 3;
+const Z_ALERT = 5;
+
+// Width of the EWMA control limits, in standard deviations of the EWMA
+const EWMA_LIMIT = 3;
+
+// Smallest spread scores are measured against, relative to the mean, so a
+// steady stream isn't flagged for sensor noise
+const MIN_SPREAD = 0.01;
 
 /**
- * Maximum number of historical readings to keep per device/sensor type
+ * Describe an anomaly in the display units
+ * Details hold canonical values, so the message can follow a later change of unit system
+ * @param detail Anomaly detail
+ * @param dataType Data type of the reading
+ * @param system Unit system, the user's preference by default
+ * @returns Human-readable message
  */
-const MAX_HISTORY_SIZE = 100;
+export function describeAnomaly(
+  detail: AnomalyDetail,
+  dataType: string,
+  system: UnitSystem = get(unitSystem)
+): string {
+  const value = (canonical: number) => formatValue(dataType, canonical, system);
+  const rate = (canonical: number) => {
+    const unit = getDisplayUnit(dataType, system);
+    return `${toDisplayDelta(dataType, canonical, system).toFixed(2)}${unit ? ` ${unit}` : ''}`;
+  };
+  const duration = (ms: number) => {
+    const minutes = Math.round(ms / 60000);
+    if (minutes < 120) return `${minutes} min`;
+    const hours = Math.round(minutes / 60);
+    return hours < 48 ? `${hours} h` : `${Math.round(hours / 24)} days`;
+  };
+  
+  switch (detail.type) {
+    case 'below_minimum':
+      return `Value ${value(detail.actual)} is below minimum threshold of ${value(detail.threshold!)}`;
+    case 'above_maximum':
+      return `Value ${value(detail.actual)} is above maximum threshold of ${value(detail.threshold!)}`;
+    case 'below_normal':
+      return `Value ${value(detail.actual)} is below normal range of ${value(detail.threshold!)}`;
+    case 'above_normal':
+      return `Value ${value(detail.actual)} is above normal range of ${value(detail.threshold!)}`;
+    case 'rapid_change':
+      return `Rapid change of ${rate(detail.actual)} per hour exceeds alert threshold`;
+    case 'fast_change':
+      return `Fast change of ${rate(detail.actual)} per hour exceeds warning threshold`;
+    case 'zscore_outlier':
+      return `Value ${value(detail.actual)} is ${Math.abs(detail.score!).toFixed(1)} standard deviations from the rolling mean of ${value(detail.threshold!)}`;
+    case 'ewma_drift':
+      return `Smoothed value ${value(detail.actual)} has drifted outside the control limits around ${value(detail.threshold!)}`;
+    case 'diurnal_deviation':
+      return `Value ${value(detail.actual)} is ${Math.abs(detail.score!).toFixed(1)} standard deviations from the usual ${value(detail.threshold!)} at this hour`;
+    case 'frost_risk':
+      return `Temperature ${value(detail.actual)} is within ${rate(detail.actual - detail.threshold!)} of the dew point ${value(detail.threshold!)}`;
+    case 'disease_pressure':
+      return `${detail.actual.toFixed(1)} h of high humidity at mild temperatures, above the ${detail.threshold} h disease risk level`;
+    case 'irrigation_fault':
+      return `Soil moisture rose by ${rate(detail.actual)} without rain`;
+    case 'humidity_coupling':
+      return `Humidity moved with temperature (r = ${detail.actual.toFixed(2)}) instead of against it`;
+    case 'stuck_value':
+      return `Last ${detail.threshold} readings are all ${value(detail.actual)}`;
+    case 'neighbour_drift':
+      return `Offset from nearby devices shifted by ${rate(detail.actual)}, beyond the usual ${rate(detail.threshold!)}`;
+    case 'battery_low':
+      return `Battery at ${value(detail.actual)}, below ${value(detail.threshold!)}`;
+    case 'battery_drain':
+      return `Battery draining at ${rate(detail.actual)} per hour, faster than ${rate(detail.threshold!)}`;
+    case 'signal_decline':
+      return `Signal strength fell by ${rate(detail.actual)} over recent readings`;
+    case 'future_timestamp':
+      return `Reading is timestamped ${duration(detail.actual)} ahead of when it arrived`;
+    case 'clock_skew':
+      return `Reading is timestamped ${duration(detail.actual)} before it arrived`;
+    case 'duplicate_reading':
+      return detail.actual === 1
+        ? '1 reading was sent more than once'
+        : `${detail.actual} readings were sent more than once`;
+    default:
+      return detail.message;
+  }
+}
 
 /**
- * Detect anomalies in a sensor reading
- * @param reading Current sensor reading
- * @param customThresholds Optional custom thresholds
- * @returns Anomaly report if issues detected, null otherwise
+ * Value of a reading in its data type's canonical unit, or null if it has none
  */
-export function detectAnomaly(
+function readingValue(reading: SensorReading): number | null {
+  const parsed = typeof reading.data === 'string' ? JSON.parse(reading.data) : reading.data;
+  
+  return primaryValue(reading.dataType, parsed);
+}
+
+/**
+ * Anomaly detail with its message in the display units
+ */
+export function buildDetail(
+  dataType: string,
+  type: string,
+  threshold: number,
+  actual: number,
+  score?: number
+): AnomalyDetail {
+  const detail: AnomalyDetail = {
+    type,
+    message: '',
+    threshold,
+    actual,
+    ...(score !== undefined ? { score } : {})
+  };
+  detail.message = describeAnomaly(detail, dataType);
+  return detail;
+}
+
+/**
+ * Check a value against the static thresholds and its rate of change since the
+ * stream's previous reading, given as [timestamp, value]
+ */
+function checkThresholds(
   reading: SensorReading,
-  customThresholds?: Partial<SensorThresholds>
+  value: number,
+  thresholds: SensorThresholds,
+  previous: [number, number] | undefined
 ): AnomalyReport | null {
-  try {
-    // Get default thresholds for this sensor type
-    const baseThresholds = DEFAULT_THRESHOLDS[reading.dataType] || DEFAULT_THRESHOLDS.temperature;
+  const anomalies: AnomalyDetail[] = [];
+  let severity: AnomalyReport['severity'] = 'info';
+  const issue = (type: string, threshold: number, actual: number) =>
+    buildDetail(reading.dataType, type, threshold, actual);
+  
+  // Check for out-of-bounds values
+  if (value < thresholds.min) {
+    anomalies.push(issue('below_minimum', thresholds.min, value));
+    severity = 'error';
+  } else if (value > thresholds.max) {
+    anomalies.push(issue('above_maximum', thresholds.max, value));
+    severity = 'error';
+  } else if (value < thresholds.normalRange[0]) {
+    anomalies.push(issue('below_normal', thresholds.normalRange[0], value));
+    severity = 'warning';
+  } else if (value > thresholds.normalRange[1]) {
+    anomalies.push(issue('above_normal', thresholds.normalRange[1], value));
+    severity = 'warning';
+  }
+  
+  // Check rate of change against the reading before it
+  if (previous) {
+    const [prevTimestamp, prevValue] = previous;
+    const timeDiffHours = (reading.timestamp - prevTimestamp) / (1000 * 60 * 60);
+    const changeRate = Math.abs(value - prevValue) / timeDiffHours;
     
-    // Merge with any custom thresholds
-    const thresholds = { ...baseThresholds, ...customThresholds };
+    if (changeRate > thresholds.rateOfChangeAlert) {
+      anomalies.push(issue('rapid_change', thresholds.rateOfChangeAlert, changeRate));
+      severity = severity === 'info' ? 'error' : severity;
+    } else if (changeRate > thresholds.rateOfChangeWarning) {
+      anomalies.push(issue('fast_change', thresholds.rateOfChangeWarning, changeRate));
+      severity = severity === 'info' ? 'warning' : severity;
+    }
+  }
+  
+  return anomalies.length > 0 ? buildReport(reading, value, 'threshold', anomalies, severity) : null;
+}
+
+interface BaselineFinding {
+  type: string;
+  // Baseline mean the value is compared with
+  threshold: number;
+  actual: number;
+  score: number;
+  severity: AnomalyReport['severity'];
+}
+
+function spread(mean: number, variance: number): number {
+  return Math.max(Math.sqrt(variance), MIN_SPREAD * Math.max(1, Math.abs(mean)));
+}
+
+/**
+ * Statistical detectors, each checking a value against the stream's baseline
+ * before the value is learned
+ */
+const BASELINE_DETECTORS: Record<
+  BaselineDetector,
+  (baseline: SensorBaseline, timestamp: number, value: number) => BaselineFinding | null
+> = {
+  // Distance from the mean of the latest readings
+  zscore: (baseline, timestamp, value) => {
+    const { count, mean, variance } = windowMoments(baseline, timestamp);
+    if (count < MIN_BASELINE) return null;
     
-    // Parse the sensor data
-    const parsedData = typeof reading.data === 'string' 
-      ? JSON.parse(reading.data) 
-      : reading.data;
+    const score = (value - mean) / spread(mean, variance);
+    if (Math.abs(score) < Z_WARNING) return null;
     
-    // Extract the value
-    const value = parsedData.value !== undefined 
-      ? parsedData.value 
-      : parsedData[reading.dataType] || 0;
+    return {
+      type: 'zscore_outlier',
+      threshold: mean,
+      actual: value,
+      score,
+      severity: Math.abs(score) >= Z_ALERT ? 'error' : 'warning'
+    };
+  },
+  
+  // Sustained drift from the hourly profile; only readings newer than the baseline move it
+  ewma: (baseline, timestamp, value) => {
+    const latest = baseline.window.at(-1)?.[0];
+    if (latest === undefined || timestamp <= latest) return null;
     
-    // Initialize detection results
-    const anomalies = [];
-    let severity = 'info';
+    const hour = baseline.hourly[hourOf(timestamp)];
+    const { residuals } = baseline;
+    if (hour.count < MIN_PROFILE || residuals.count < MIN_BASELINE) return null;
     
-    // Check for out-of-bounds values
-    if (value < thresholds.min) {
-      anomalies.push({
-        type: 'below_minimum',
-        message: `Value ${value} is below minimum threshold of ${thresholds.min}`,
-        threshold: thresholds.min,
-        actual: value
-      });
-      severity = 'error';
-    } else if (value > thresholds.max) {
-      anomalies.push({
-        type: 'above_maximum',
-        message: `Value ${value} is above maximum threshold of ${thresholds.max}`,
-        threshold: thresholds.max,
-        actual: value
-      });
-      severity = 'error';
-    } else if (value < thresholds.normalRange[0]) {
-      anomalies.push({
-        type: 'below_normal',
-        message: `Value ${value} is below normal range of ${thresholds.normalRange[0]}`,
-        threshold: thresholds.normalRange[0],
-        actual: value
-      });
-      severity = 'warning';
-    } else if (value > thresholds.normalRange[1]) {
-      anomalies.push({
-        type: 'above_normal',
-        message: `Value ${value} is above normal range of ${thresholds.normalRange[1]}`,
-        threshold: thresholds.normalRange[1],
-        actual: value
-      });
-      severity = 'warning';
-    }
+    const ewma = nextEwma(baseline.ewma, value - hour.mean);
+    const ewmaDeviation =
+      spread(hour.mean, residuals.variance) * Math.sqrt(EWMA_LAMBDA / (2 - EWMA_LAMBDA));
+    const score = ewma / ewmaDeviation;
+    if (Math.abs(score) <= EWMA_LIMIT) return null;
     
-    // Check rate of change (if historical data exists)
-    const deviceKey = `${reading.deviceId}-${reading.dataType}`;
+    return {
+      type: 'ewma_drift',
+      threshold: hour.mean,
+      actual: hour.mean + ewma,
+      score,
+      severity: 'warning'
+    };
+  },
+  
+  // Distance from the usual value at the reading's hour of the day
+  diurnal: (baseline, timestamp, value) => {
+    const { count, mean, variance } = baseline.hourly[hourOf(timestamp)];
+    if (count < MIN_PROFILE) return null;
     
-    // Store the current reading in history
-    if (!historicalReadings[deviceKey]) {
-      historicalReadings[deviceKey] = [];
-    }
+    const score = (value - mean) / spread(mean, variance);
+    if (Math.abs(score) < Z_WARNING) return null;
     
-    // Add to history
-    historicalReadings[deviceKey].push({
-      ...reading,
-      data: typeof reading.data === 'string' ? reading.data : JSON.stringify(reading.data)
-    });
+    return { type: 'diurnal_deviation', threshold: mean, actual: value, score, severity: 'warning' };
+  }
+};
+
+function buildReport(
+  reading: SensorReading,
+  value: number,
+  detector: AnomalyDetector,
+  anomalies: AnomalyDetail[],
+  severity: AnomalyReport['severity']
+): AnomalyReport {
+  return {
+    deviceId: reading.deviceId,
+    dataType: reading.dataType,
+    timestamp: reading.timestamp,
+    location: reading.location,
+    value,
+    anomalies,
+    severity,
+    detector
+  };
+}
+
+/**
+ * Run every detector on a sensor reading, then learn it into its stream's baseline
+ * Call prepareBaselines first so the baselines are loaded; a stream that isn't
+ * prepared starts from an empty one. Likewise call loadThresholdProfiles, or
+ * only the default thresholds apply.
+ * @param reading Current sensor reading
+ * @param customThresholds Optional custom thresholds, over those of the matching profile
+ * @returns A report per detector that found issues
+ */
+export function detectReadingAnomalies(
+  reading: SensorReading,
+  customThresholds?: Partial<SensorThresholds>
+): AnomalyReport[] {
+  try {
+    // Thresholds of the most specific profile for the reading, or the defaults
+    const resolved = resolveThresholds(reading);
     
-    // Limit history size
-    if (historicalReadings[deviceKey].length > MAX_HISTORY_SIZE) {
-      historicalReadings[deviceKey] = historicalReadings[deviceKey].slice(-MAX_HISTORY_SIZE);
-    }
+    // Parse the sensor data and extract the value, converted to the thresholds' unit
+    const measured = readingValue(reading);
+    const value = measured ?? 0;
     
-    // Need at least two readings to calculate rate of change
-    if (historicalReadings[deviceKey].length > 1) {
-      const previous = historicalReadings[deviceKey][historicalReadings[deviceKey].length - 2];
-      const prevData = typeof previous.data === 'string' 
-        ? JSON.parse(previous.data) 
-        : previous.data;
-      
-      const prevValue = prevData.value !== undefined 
-        ? prevData.value 
-        : prevData[previous.dataType] || 0;
-      
-      const timeDiffHours = (reading.timestamp - previous.timestamp) / (1000 * 60 * 60);
-      
-      if (timeDiffHours > 0) {
-        const changeRate = Math.abs(value - prevValue) / timeDiffHours;
-        
-        if (changeRate > thresholds.rateOfChangeAlert) {
-          anomalies.push({
-            type: 'rapid_change',
-            message: `Rapid change of ${changeRate.toFixed(2)} per hour exceeds alert threshold`,
-            threshold: thresholds.rateOfChangeAlert,
-            actual: changeRate
-          });
-          severity = severity === 'info' ? 'error' : severity;
-        } else if (changeRate > thresholds.rateOfChangeWarning) {
-          anomalies.push({
-            type: 'fast_change',
-            message: `Fast change of ${changeRate.toFixed(2)} per hour exceeds warning threshold`,
-            threshold: thresholds.rateOfChangeWarning,
-            actual: changeRate
-          });
-          severity = severity === 'info' ? 'warning' : severity;
-        }
+    const baseline = getBaseline(reading.deviceId, reading.dataType);
+    const reports: AnomalyReport[] = [];
+    
+    // Data types without thresholds are left to the baseline detectors
+    if (resolved) {
+      const thresholds = { ...resolved.thresholds, ...customThresholds };
+      // The persisted baseline keeps the reading before this one
+      const previous = previousValue(baseline, reading.timestamp);
+      const thresholdReport = checkThresholds(reading, value, thresholds, previous);
+      if (thresholdReport) {
+        reports.push({ ...thresholdReport, thresholds: resolved.source });
       }
     }
     
-    // Return null if no anomalies found
-    if (anomalies.length === 0) {
-      return null;
+    // Readings without a value are left out of the baseline
+    if (measured !== null) {
+      for (const [detector, detect] of Object.entries(BASELINE_DETECTORS)) {
+        const finding = detect(baseline, reading.timestamp, value);
+        if (!finding) continue;
+        
+        const detail = buildDetail(
+          reading.dataType,
+          finding.type,
+          finding.threshold,
+          finding.actual,
+          finding.score
+        );
+        reports.push(
+          buildReport(reading, value, detector as BaselineDetector, [detail], finding.severity)
+        );
+      }
+      
+      learnValue(baseline, reading.timestamp, value);
     }
     
-    // Return anomaly report
-    return {
-      deviceId: reading.deviceId,
-      dataType: reading.dataType,
-      timestamp: reading.timestamp,
-      location: reading.location,
-      value: value,
-      anomalies,
-      severity
-    };
+    return reports;
   } catch (error) {
     console.error('Error detecting anomalies:', error);
     
     // Return a parsing error anomaly
-    return {
+    return [{
       deviceId: reading.deviceId,
       dataType: reading.dataType,
       timestamp: reading.timestamp,
@@ -205,30 +387,87 @@ export function detectAnomaly(
           actual: reading.data
         }
       ],
-      severity: 'error'
-    };
+      severity: 'error',
+      detector: 'threshold'
+    }];
   }
 }
 
+/**
+ * Detect threshold anomalies in a sensor reading
+ * The reading is learned into its stream's baseline like in detectReadingAnomalies,
+ * but only the threshold report is returned
+ * @param reading Current sensor reading
+ * @param customThresholds Optional custom thresholds
+ * @returns Anomaly report if issues detected, null otherwise
+ */
+export function detectAnomaly(
+  reading: SensorReading,
+  customThresholds?: Partial<SensorThresholds>
+): AnomalyReport | null {
+  return detectReadingAnomalies(reading, customThresholds)
+    .find(report => report.detector === 'threshold') ?? null;
+}
+
 /**
  * Process a batch of sensor readings for anomalies
+ * Readings are checked in time order, so each is compared with the one before it,
+ * and each against the profile matching its own location and time
  * @param readings Array of sensor readings
- * @param customThresholds Optional custom thresholds
- * @returns Array of anomaly reports
+ * @param customThresholds Optional custom thresholds by data type, over the profiles'
+ * @returns Array of anomaly reports from every detector
  */
 export function detectBatchAnomalies(
   readings: SensorReading[],
   customThresholds?: Record<string, Partial<SensorThresholds>>
 ): AnomalyReport[] {
   const anomalies: AnomalyReport[] = [];
+  const chronological = [...readings].sort((a, b) => a.timestamp - b.timestamp);
   
-  for (const reading of readings) {
+  for (const reading of chronological) {
     const thresholds = customThresholds?.[reading.dataType];
-    const anomaly = detectAnomaly(reading, thresholds);
+    anomalies.push(...detectReadingAnomalies(reading, thresholds));
+  }
+  
+  return anomalies;
+}
+
+/**
+ * Check readings against their thresholds without running the baseline detectors
+ * Aggregates and rollups summarize readings the baselines have already learned,
+ * so only the threshold check can be repeated on them. Nothing is learned, and
+ * each reading's rate of change is taken from its stream's previous reading
+ * among the given ones.
+ * @param readings Array of sensor readings
+ * @returns Array of threshold anomaly reports
+ */
+export function detectThresholdAnomalies(readings: SensorReading[]): AnomalyReport[] {
+  const anomalies: AnomalyReport[] = [];
+  const previous: Record<string, [number, number]> = {};
+  const chronological = [...readings].sort((a, b) => a.timestamp - b.timestamp);
+  
+  for (const reading of chronological) {
+    const resolved = resolveThresholds(reading);
+    let value: number | null;
+    try {
+      value = readingValue(reading);
+    } catch {
+      value = null;
+    }
+    if (!resolved || value === null) continue;
     
-    if (anomaly) {
-      anomalies.push(anomaly);
+    const stream = `${reading.deviceId}|${reading.dataType}`;
+    const before = previous[stream];
+    const report = checkThresholds(
+      reading,
+      value,
+      resolved.thresholds,
+      before && before[0] < reading.timestamp ? before : undefined
+    );
+    if (report) {
+      anomalies.push({ ...report, thresholds: resolved.source });
     }
+    previous[stream] = [reading.timestamp, value];
   }
   
   return anomalies;
@@ -308,6 +547,69 @@ export function getSuggestedActions(anomaly: AnomalyReport): string[] {
       break;
   }
   
+  // Departures from the learned baseline
+  if (anomaly.anomalies.some(a => a.type === 'zscore_outlier' || a.type === 'diurnal_deviation')) {
+    actions.push('Compare with nearby sensors to confirm the reading');
+  }
+  
+  if (anomaly.anomalies.some(a => a.type === 'ewma_drift')) {
+    actions.push('Check sensor calibration for gradual drift');
+    actions.push('Review recent changes to climate control settings');
+  }
+  
+  // Cross-sensor conditions
+  if (anomaly.anomalies.some(a => a.type === 'frost_risk')) {
+    actions.push('Prepare frost protection such as covers, heaters or irrigation');
+  }
+  
+  if (anomaly.anomalies.some(a => a.type === 'disease_pressure')) {
+    actions.push('Scout for fungal disease and consider a preventive treatment');
+    actions.push('Improve air circulation to shorten leaf wetness');
+  }
+  
+  if (anomaly.anomalies.some(a => a.type === 'irrigation_fault')) {
+    actions.push('Check irrigation valves and lines for leaks');
+    actions.push('Verify the irrigation schedule');
+  }
+  
+  if (anomaly.anomalies.some(a => a.type === 'humidity_coupling')) {
+    actions.push('Check the humidity sensor for condensation or damage');
+  }
+  
+  // Device hardware and firmware
+  if (anomaly.anomalies.some(a => a.type === 'stuck_value')) {
+    actions.push('Power-cycle the device');
+    actions.push('Inspect the probe and its cable for damage or debris');
+  }
+  
+  if (anomaly.anomalies.some(a => a.type === 'neighbour_drift')) {
+    actions.push('Recalibrate the sensor against a reference or a nearby device');
+    actions.push('Check whether the device was moved or its housing obstructed');
+  }
+  
+  if (anomaly.anomalies.some(a => a.type === 'battery_low')) {
+    actions.push('Replace or recharge the battery');
+  }
+  
+  if (anomaly.anomalies.some(a => a.type === 'battery_drain')) {
+    actions.push('Check the reporting interval and radio settings for excess power use');
+    actions.push('Inspect the battery and solar panel, if fitted');
+  }
+  
+  if (anomaly.anomalies.some(a => a.type === 'signal_decline')) {
+    actions.push('Check the antenna and clear obstructions between the device and gateway');
+    actions.push('Consider moving the device or adding a repeater');
+  }
+  
+  if (anomaly.anomalies.some(a => a.type === 'future_timestamp' || a.type === 'clock_skew')) {
+    actions.push('Resynchronise the device clock or enable network time');
+    actions.push('Replace the real-time clock battery if the clock resets');
+  }
+  
+  if (anomaly.anomalies.some(a => a.type === 'duplicate_reading')) {
+    actions.push('Check the firmware retry and acknowledgement settings');
+  }
+  
   // Add general actions for all anomalies
   if (anomaly.anomalies.some(a => a.type === 'rapid_change' || a.type === 'fast_change')) {
     actions.push('Investigate sudden environmental changes');
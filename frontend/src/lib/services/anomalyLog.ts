@@ -0,0 +1,192 @@
+import type {
+	AnomalyDetector,
+	AnomalyIncident,
+	AnomalyReport,
+	IncidentStatus,
+	IncidentUpdate
+} from '$lib/types';
+import { openDatabase, promisifyRequest, transactionDone } from './database';
+import { decodeRecord, decodeRecords, encodeRecord } from './encryption';
+
+/**
+ * Persistent anomaly log
+ * Reports are merged into incidents, one per ongoing condition: a device
+ * stream flagged by the same detector without a long enough break. Incidents
+ * are reviewed through their status, from open to acknowledged and on to
+ * resolved or false positive, with an assignee and notes.
+ */
+
+// Longest break between reports that still counts as the same condition
+export const INCIDENT_GAP = 60 * 60 * 1000;
+
+// Statuses of incidents that new reports can still join
+export const ACTIVE_STATUSES: IncidentStatus[] = ['open', 'acknowledged'];
+
+export const INCIDENT_STATUSES: Record<IncidentStatus, string> = {
+	open: 'Open',
+	acknowledged: 'Acknowledged',
+	resolved: 'Resolved',
+	'false-positive': 'False positive'
+};
+
+const SEVERITY_RANK: Record<AnomalyReport['severity'], number> = { info: 0, warning: 1, error: 2 };
+
+export interface IncidentQuery {
+	status?: IncidentStatus[];
+	deviceId?: string;
+	dataType?: string;
+	detector?: AnomalyDetector;
+	// Incidents seen within the range
+	fromTimestamp?: number;
+	toTimestamp?: number;
+}
+
+async function conditionIncidents(
+	deviceId: string,
+	dataType: string,
+	detector: AnomalyDetector
+): Promise<AnomalyIncident[]> {
+	const db = await openDatabase();
+	const store = db.transaction('anomalyIncidents', 'readonly').objectStore('anomalyIncidents');
+	const stored = await promisifyRequest(
+		store.index('condition').getAll([deviceId, dataType, detector])
+	);
+	return decodeRecords<AnomalyIncident>(stored);
+}
+
+async function saveIncident(incident: AnomalyIncident): Promise<AnomalyIncident> {
+	const record = await encodeRecord('anomalyIncidents', incident);
+	const db = await openDatabase();
+	const transaction = db.transaction('anomalyIncidents', 'readwrite');
+	const id = await promisifyRequest(transaction.objectStore('anomalyIncidents').put(record));
+	await transactionDone(transaction);
+	return { ...incident, id: id as number };
+}
+
+/**
+ * Merge anomaly reports into the log
+ * A report within an incident's span is already covered and skipped, so the
+ * same reports can be recorded again. Otherwise it joins the active incident
+ * of its condition it comes within INCIDENT_GAP of, or opens a new one.
+ * @param reports Reports from any detector
+ * @returns The incidents that were opened or extended
+ */
+export async function recordAnomalies(reports: AnomalyReport[]): Promise<AnomalyIncident[]> {
+	const touched = new Map<number, AnomalyIncident>();
+
+	for (const report of [...reports].sort((a, b) => a.timestamp - b.timestamp)) {
+		const incidents = await conditionIncidents(report.deviceId, report.dataType, report.detector);
+		const covered = incidents.some(
+			(incident) => report.timestamp >= incident.firstSeen && report.timestamp <= incident.lastSeen
+		);
+		if (covered) continue;
+
+		const now = Date.now();
+		const ongoing = incidents.find(
+			(incident) =>
+				ACTIVE_STATUSES.includes(incident.status) &&
+				report.timestamp >= incident.firstSeen - INCIDENT_GAP &&
+				report.timestamp <= incident.lastSeen + INCIDENT_GAP
+		);
+
+		const incident: AnomalyIncident = ongoing
+			? {
+					...ongoing,
+					severity:
+						SEVERITY_RANK[report.severity] > SEVERITY_RANK[ongoing.severity]
+							? report.severity
+							: ongoing.severity,
+					firstSeen: Math.min(ongoing.firstSeen, report.timestamp),
+					lastSeen: Math.max(ongoing.lastSeen, report.timestamp),
+					reportCount: ongoing.reportCount + 1,
+					latest: report.timestamp > ongoing.lastSeen ? report : ongoing.latest,
+					updatedAt: now
+				}
+			: {
+					deviceId: report.deviceId,
+					dataType: report.dataType,
+					detector: report.detector,
+					location: report.location,
+					status: 'open',
+					severity: report.severity,
+					firstSeen: report.timestamp,
+					lastSeen: report.timestamp,
+					reportCount: 1,
+					latest: report,
+					assignee: '',
+					notes: '',
+					createdAt: now,
+					updatedAt: now
+				};
+
+		const saved = await saveIncident(incident);
+		touched.set(saved.id!, saved);
+	}
+
+	return Array.from(touched.values());
+}
+
+/**
+ * Incidents matching the filters, most recently seen first
+ */
+export async function getIncidents(query: IncidentQuery = {}): Promise<AnomalyIncident[]> {
+	const db = await openDatabase();
+	const store = db.transaction('anomalyIncidents', 'readonly').objectStore('anomalyIncidents');
+	const incidents = await decodeRecords<AnomalyIncident>(await promisifyRequest(store.getAll()));
+
+	return incidents
+		.filter(
+			(incident) =>
+				(!query.status || query.status.includes(incident.status)) &&
+				(!query.deviceId || incident.deviceId === query.deviceId) &&
+				(!query.dataType || incident.dataType === query.dataType) &&
+				(!query.detector || incident.detector === query.detector) &&
+				(query.fromTimestamp === undefined || incident.lastSeen >= query.fromTimestamp) &&
+				(query.toTimestamp === undefined || incident.firstSeen <= query.toTimestamp)
+		)
+		.sort((a, b) => b.lastSeen - a.lastSeen);
+}
+
+export async function getIncident(id: number): Promise<AnomalyIncident | null> {
+	const db = await openDatabase();
+	const store = db.transaction('anomalyIncidents', 'readonly').objectStore('anomalyIncidents');
+	const stored = await promisifyRequest(store.get(id));
+	return stored ? decodeRecord<AnomalyIncident>(stored) : null;
+}
+
+/**
+ * Change an incident's status, assignee or notes
+ * Status changes stamp when the incident was acknowledged or closed; reopening
+ * clears both
+ * @returns The updated incident
+ */
+export async function updateIncident(
+	id: number,
+	changes: IncidentUpdate
+): Promise<AnomalyIncident> {
+	const incident = await getIncident(id);
+	if (!incident) {
+		throw new Error(`Anomaly incident ${id} not found`);
+	}
+
+	const now = Date.now();
+	const updated: AnomalyIncident = { ...incident, ...changes, updatedAt: now };
+
+	if (changes.status && changes.status !== incident.status) {
+		switch (changes.status) {
+			case 'open':
+				delete updated.acknowledgedAt;
+				delete updated.closedAt;
+				break;
+			case 'acknowledged':
+				updated.acknowledgedAt = now;
+				delete updated.closedAt;
+				break;
+			default:
+				updated.acknowledgedAt ??= now;
+				updated.closedAt = now;
+		}
+	}
+
+	return saveIncident(updated);
+}
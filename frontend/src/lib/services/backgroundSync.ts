@@ -0,0 +1,65 @@
+/**
+ * Background Sync bridge between the pages and the service worker
+ * The worker cannot sign transactions, so when connectivity returns it asks
+ * the open tabs, focused or not, to flush the sensor outbox with their wallet
+ */
+
+export const OUTBOX_SYNC_TAG = 'sensor-outbox';
+export const OUTBOX_FLUSH_MESSAGE = 'flush-outbox';
+
+export interface OutboxFlushRequest {
+	type: typeof OUTBOX_FLUSH_MESSAGE;
+}
+
+export interface OutboxFlushReply {
+	flushed: boolean;
+}
+
+function hasServiceWorker(): boolean {
+	return typeof navigator !== 'undefined' && 'serviceWorker' in navigator;
+}
+
+/**
+ * Ask the service worker to flush the outbox once the device is online
+ * @returns Whether a background sync was registered; false where it is unsupported
+ */
+export async function requestOutboxFlush(): Promise<boolean> {
+	if (!hasServiceWorker()) return false;
+
+	try {
+		const registration = await navigator.serviceWorker.getRegistration();
+		if (!registration?.sync) return false;
+
+		await registration.sync.register(OUTBOX_SYNC_TAG);
+		return true;
+	} catch (error) {
+		console.warn('Background sync unavailable:', error);
+		return false;
+	}
+}
+
+/**
+ * Handle flush requests from the service worker
+ * @param flush Flushes the outbox and resolves whether the readings went out
+ * @returns Function to stop handling requests
+ */
+export function onOutboxFlush(flush: () => Promise<boolean>): () => void {
+	if (!hasServiceWorker()) return () => {};
+
+	const onMessage = async (event: MessageEvent<OutboxFlushRequest>) => {
+		if (event.data?.type !== OUTBOX_FLUSH_MESSAGE) return;
+
+		let flushed = false;
+		try {
+			flushed = await flush();
+		} catch (error) {
+			console.error('Error flushing outbox:', error);
+		}
+
+		const reply: OutboxFlushReply = { flushed };
+		event.ports[0]?.postMessage(reply);
+	};
+
+	navigator.serviceWorker.addEventListener('message', onMessage);
+	return () => navigator.serviceWorker.removeEventListener('message', onMessage);
+}
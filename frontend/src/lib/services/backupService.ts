@@ -1,32 +1,52 @@
 // backupService.ts
 import { IndexedDBDataService } from './dataService';
+import { DB_VERSION } from './database';
+import { decryptBackup, encryptBackup } from './encryption';
+import type { CropImage } from '$lib/types';
 
 export class BackupService {
   private static readonly BACKUP_KEY = 'yieldsyncx_backup';
   
   static async createBackup(): Promise<string> {
+    return (await this.writeBackup()).backup;
+  }
+  
+  // Save a backup locally; it is sealed with the active key when encryption is on
+  private static async writeBackup(): Promise<{ backup: string; cropImages: CropImage[] }> {
     const data = {
       timestamp: Date.now(),
       sensorData: await IndexedDBDataService.getAllSensorData(),
       dataAggregates: await IndexedDBDataService.getAllAggregates(),
       cropImages: await IndexedDBDataService.getAllImages(),
-      version: '1.0.0'
+      version: '1.0.0',
+      schemaVersion: DB_VERSION
     };
     
-    const backup = JSON.stringify(data);
+    const backup = await encryptBackup(JSON.stringify(data));
     localStorage.setItem(this.BACKUP_KEY, backup);
     
-    return backup;
+    return { backup, cropImages: data.cropImages };
   }
   
   static async exportBackup(): Promise<Blob> {
-    const backup = await this.createBackup();
+    const { backup, cropImages } = await this.writeBackup();
+    
+    // Exported images survive eviction through their full previews
+    await IndexedDBDataService.markImagesSynced(
+      cropImages.filter(image => image.id !== undefined && !image.evictedAt).map(image => image.id!)
+    );
+    
     return new Blob([backup], { type: 'application/json' });
   }
   
-  static async restoreFromBackup(backupData: string): Promise<boolean> {
+  /**
+   * Replace local data with a backup's
+   * @param backupData Backup file contents, plain or encrypted
+   * @param passphrase Passphrase of an encrypted backup whose key isn't unlocked here
+   */
+  static async restoreFromBackup(backupData: string, passphrase?: string): Promise<boolean> {
     try {
-      const data = JSON.parse(backupData);
+      const data = JSON.parse(await decryptBackup(backupData, passphrase));
       
       // Validate backup structure
       if (!data.timestamp || !data.sensorData || !data.version) {
@@ -62,6 +82,17 @@ export class BackupService {
     }
   }
   
+  /**
+   * Whether backup file contents are sealed with a passphrase-derived key
+   */
+  static isEncrypted(backupData: string): boolean {
+    try {
+      return JSON.parse(backupData).encrypted === true;
+    } catch {
+      return false;
+    }
+  }
+  
   static getLastBackupTimestamp(): number | null {
     const backup = localStorage.getItem(this.BACKUP_KEY);
     if (!backup) return null;
@@ -0,0 +1,293 @@
+import type { BaselineMoments, SensorBaseline, SensorReading } from '$lib/types';
+import { IndexedDBDataService } from './dataService';
+import { openDatabase, promisifyRequest, transactionDone } from './database';
+import { decodeRecord, encodeRecords } from './encryption';
+import { carriesChannel, expandChannels, primaryValue } from './channels';
+import { getDeviceGaps } from './gapDetection';
+
+/**
+ * Learned baselines of device streams
+ * Each device and data type keeps its latest readings for a rolling mean and
+ * deviation, the usual value of every hour of the day, and an EWMA of how far
+ * readings stray from that hourly profile, so the daily cycle doesn't read as
+ * drift. Detectors work on the copies held in memory; those are persisted so a
+ * reload picks up where it left off, and streams without a stored baseline are
+ * warmed up from their stored readings.
+ */
+
+// Latest readings the rolling statistics are computed over
+export const WINDOW_SIZE = 100;
+
+// Readings the rolling statistics need before they are trusted
+export const MIN_BASELINE = 30;
+
+// EWMA smoothing factor; lower values react slower and catch smaller drifts
+export const EWMA_LAMBDA = 0.2;
+
+// Readings an hour of the profile needs before it is trusted
+export const MIN_PROFILE = 20;
+
+// Readings each hour of the profile averages over before older ones start to fade
+const PROFILE_MEMORY = 200;
+
+// Differences from the profile the EWMA's spread is estimated over
+const RESIDUAL_MEMORY = 500;
+
+// Stored readings a new baseline is warmed up from
+const WARMUP_SIZE = 2000;
+
+const baselines = new Map<string, SensorBaseline>();
+
+// Streams whose stored baseline was loaded, or warmed up when there was none
+const prepared = new Set<string>();
+
+// Streams that learned readings since they were last saved
+const unsaved = new Set<string>();
+
+function baselineKey(deviceId: string, dataType: string): string {
+	return JSON.stringify([deviceId, dataType]);
+}
+
+/**
+ * Baseline that has learned nothing yet
+ */
+export function createBaseline(deviceId: string, dataType: string): SensorBaseline {
+	return {
+		deviceId,
+		dataType,
+		window: [],
+		hourly: Array.from({ length: 24 }, createMoments),
+		ewma: null,
+		residuals: createMoments(),
+		updatedAt: Date.now()
+	};
+}
+
+function createMoments(): BaselineMoments {
+	return { count: 0, mean: 0, variance: 0 };
+}
+
+/**
+ * In-memory baseline of a stream, started empty when there is none yet
+ */
+export function getBaseline(deviceId: string, dataType: string): SensorBaseline {
+	const key = baselineKey(deviceId, dataType);
+	let baseline = baselines.get(key);
+	if (!baseline) {
+		baseline = createBaseline(deviceId, dataType);
+		baselines.set(key, baseline);
+	}
+	return baseline;
+}
+
+/**
+ * Hour of the day of a timestamp, in local time
+ */
+export function hourOf(timestamp: number): number {
+	return new Date(timestamp).getHours();
+}
+
+/**
+ * Add a value to exponentially weighted moments in place
+ * The first values are averaged evenly; after that each weighs 1 / memory
+ */
+function addMoment(moments: BaselineMoments, value: number, memory: number): void {
+	moments.count++;
+	const weight = Math.max(1 / moments.count, 1 / memory);
+	const delta = value - moments.mean;
+	moments.mean += weight * delta;
+	moments.variance = (1 - weight) * (moments.variance + weight * delta * delta);
+}
+
+/**
+ * EWMA after one more value
+ */
+export function nextEwma(ewma: number | null, value: number): number {
+	return ewma === null ? value : EWMA_LAMBDA * value + (1 - EWMA_LAMBDA) * ewma;
+}
+
+/**
+ * Learn a reading's value
+ * A timestamp already in the window is ignored, so replaying readings changes
+ * nothing. Only a reading newer than the window moves the hourly profile and
+ * the EWMA; older ones are just placed in the window.
+ * @returns Whether the baseline changed
+ */
+export function learnValue(baseline: SensorBaseline, timestamp: number, value: number): boolean {
+	if (!Number.isFinite(value)) return false;
+
+	const { window } = baseline;
+	const latest = window.at(-1)?.[0] ?? -Infinity;
+
+	if (timestamp > latest) {
+		window.push([timestamp, value]);
+
+		const hour = baseline.hourly[hourOf(timestamp)];
+		if (hour.count >= MIN_PROFILE) {
+			const residual = value - hour.mean;
+			baseline.ewma = nextEwma(baseline.ewma, residual);
+			addMoment(baseline.residuals, residual, RESIDUAL_MEMORY);
+		}
+		addMoment(hour, value, PROFILE_MEMORY);
+	} else {
+		const index = window.findIndex(([time]) => time >= timestamp);
+		if (window[index][0] === timestamp) return false;
+		// Older than everything a full window keeps
+		if (index === 0 && window.length >= WINDOW_SIZE) return false;
+		window.splice(index, 0, [timestamp, value]);
+	}
+
+	if (window.length > WINDOW_SIZE) {
+		window.splice(0, window.length - WINDOW_SIZE);
+	}
+	baseline.updatedAt = Date.now();
+	unsaved.add(baselineKey(baseline.deviceId, baseline.dataType));
+	return true;
+}
+
+/**
+ * Mean and sample variance of the window
+ * @param exclude Timestamp of a reading to leave out, so it isn't scored against itself
+ */
+export function windowMoments(baseline: SensorBaseline, exclude?: number): BaselineMoments {
+	const values = baseline.window.filter(([time]) => time !== exclude).map(([, value]) => value);
+	if (values.length === 0) return { count: 0, mean: 0, variance: 0 };
+
+	const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+	const variance =
+		values.length > 1
+			? values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (values.length - 1)
+			: 0;
+	return { count: values.length, mean, variance };
+}
+
+/**
+ * Latest reading in the window before a timestamp, as [timestamp, value]
+ */
+export function previousValue(
+	baseline: SensorBaseline,
+	timestamp: number
+): [number, number] | undefined {
+	for (let i = baseline.window.length - 1; i >= 0; i--) {
+		if (baseline.window[i][0] < timestamp) return baseline.window[i];
+	}
+	return undefined;
+}
+
+function readingValue(reading: SensorReading): number | null {
+	try {
+		const payload = typeof reading.data === 'string' ? JSON.parse(reading.data) : reading.data;
+		return payload && typeof payload === 'object' ? primaryValue(reading.dataType, payload) : null;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Stored baseline of one stream
+ */
+export async function loadBaseline(
+	deviceId: string,
+	dataType: string
+): Promise<SensorBaseline | null> {
+	const db = await openDatabase();
+	const store = db.transaction('baselines', 'readonly').objectStore('baselines');
+	const stored = await promisifyRequest(store.get([deviceId, dataType]));
+	return stored ? decodeRecord<SensorBaseline>(stored) : null;
+}
+
+/**
+ * Learn a new baseline from a stream's latest stored readings
+ */
+async function warmUp(deviceId: string, dataType: string): Promise<SensorBaseline> {
+	const baseline = createBaseline(deviceId, dataType);
+
+	let readings = await IndexedDBDataService.getSensorData({
+		deviceId,
+		dataType,
+		order: 'desc',
+		limit: WARMUP_SIZE
+	});
+	if (readings.length === 0) {
+		// Channels are read from the readings that carry them
+		const carrier = (await getDeviceGaps(deviceId)).find((stream) =>
+			carriesChannel(stream.dataType, dataType)
+		);
+		if (carrier) {
+			readings = await IndexedDBDataService.getSensorData({
+				deviceId,
+				dataType: carrier.dataType,
+				order: 'desc',
+				limit: WARMUP_SIZE
+			});
+		}
+	}
+
+	for (const reading of expandChannels(readings.reverse())) {
+		if (reading.dataType !== dataType) continue;
+
+		const value = readingValue(reading);
+		if (value !== null) {
+			learnValue(baseline, reading.timestamp, value);
+		}
+	}
+
+	return baseline;
+}
+
+/**
+ * Load or warm up the baselines of the streams readings belong to
+ * Call before detecting anomalies in the readings. What a stream learned in
+ * memory before it was prepared is replayed onto the prepared baseline.
+ * @param readings Readings, expanded to their channels
+ */
+export async function prepareBaselines(
+	readings: Array<Pick<SensorReading, 'deviceId' | 'dataType'>>
+): Promise<void> {
+	for (const { deviceId, dataType } of readings) {
+		const key = baselineKey(deviceId, dataType);
+		if (prepared.has(key)) continue;
+
+		try {
+			const baseline =
+				(await loadBaseline(deviceId, dataType)) ?? (await warmUp(deviceId, dataType));
+			for (const [timestamp, value] of baselines.get(key)?.window ?? []) {
+				learnValue(baseline, timestamp, value);
+			}
+			baselines.set(key, baseline);
+			prepared.add(key);
+		} catch (error) {
+			// Sealed baselines can't be read while encryption is locked; retried next time
+			console.error('Failed to prepare baseline:', error);
+		}
+	}
+}
+
+/**
+ * Persist the prepared baselines that learned readings since they were last saved
+ * Baselines that were never prepared are left out, so they can't replace a
+ * stored one that wasn't loaded
+ */
+export async function saveBaselines(): Promise<void> {
+	const keys = [...unsaved].filter((key) => prepared.has(key));
+	if (keys.length === 0) return;
+
+	keys.forEach((key) => unsaved.delete(key));
+	try {
+		const records = await encodeRecords(
+			'baselines',
+			keys.map((key) => baselines.get(key)!)
+		);
+
+		const db = await openDatabase();
+		const transaction = db.transaction('baselines', 'readwrite');
+		const store = transaction.objectStore('baselines');
+		for (const record of records) {
+			store.put(record);
+		}
+		await transactionDone(transaction);
+	} catch (error) {
+		keys.forEach((key) => unsaved.add(key));
+		throw error;
+	}
+}
@@ -0,0 +1,140 @@
+import type { SensorReading } from '$lib/types';
+import { toCanonical } from './units';
+
+/**
+ * Payload channels
+ * A payload carries its data type's value plus other measurements, such as
+ * the device's battery level. Each numeric field mapped here becomes a series
+ * of its own, aggregated, checked for anomalies and charted like a data type.
+ */
+
+export interface ChannelMapping {
+	// Payload field the channel is read from
+	field: string;
+	// Series the channel's values belong to
+	dataType: string;
+	// Unit the field is reported in; the payload's own unit applies to the primary value only
+	unit: string;
+}
+
+/**
+ * Extra channels in the payloads of each data type
+ */
+export const CHANNELS: Record<string, ChannelMapping[]> = {
+	temperature: [{ field: 'humidity', dataType: 'humidity', unit: '%' }],
+	humidity: [{ field: 'dewPoint', dataType: 'dew-point', unit: '°C' }],
+	'soil-moisture': [{ field: 'soilTemp', dataType: 'soil-temperature', unit: '°C' }]
+};
+
+/**
+ * Channels every device reports, whatever its data type
+ */
+export const DEVICE_CHANNELS: ChannelMapping[] = [
+	{ field: 'battery', dataType: 'battery', unit: '%' },
+	{ field: 'signal', dataType: 'signal', unit: '%' }
+];
+
+export interface ChannelValue {
+	dataType: string;
+	// Value in the channel's canonical unit
+	value: number;
+}
+
+function channelsOf(dataType: string): ChannelMapping[] {
+	return [...(CHANNELS[dataType] ?? []), ...DEVICE_CHANNELS].filter(
+		(channel) => channel.dataType !== dataType
+	);
+}
+
+/**
+ * Primary value of a payload in its data type's canonical unit
+ * Read from value or the data type's field; otherwise the first numeric field
+ * that no channel claims
+ */
+export function primaryValue(dataType: string, payload: Record<string, unknown>): number | null {
+	const unit = typeof payload.unit === 'string' ? payload.unit : undefined;
+	const canonical = (value: number) =>
+		unit === undefined ? value : (toCanonical(dataType, value, unit) ?? value);
+
+	if (typeof payload.value === 'number') {
+		return canonical(payload.value);
+	}
+	if (typeof payload[dataType] === 'number') {
+		return canonical(payload[dataType] as number);
+	}
+
+	const claimed = new Set(channelsOf(dataType).map((channel) => channel.field));
+	for (const [field, value] of Object.entries(payload)) {
+		if (typeof value === 'number' && field !== 'timestamp' && !claimed.has(field)) {
+			return value;
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Every numeric channel of a payload, the primary value first
+ */
+export function readChannels(dataType: string, payload: Record<string, unknown>): ChannelValue[] {
+	const values: ChannelValue[] = [];
+
+	const primary = primaryValue(dataType, payload);
+	if (primary !== null) {
+		values.push({ dataType, value: primary });
+	}
+
+	for (const channel of channelsOf(dataType)) {
+		const value = payload[channel.field];
+		if (typeof value !== 'number') continue;
+
+		values.push({
+			dataType: channel.dataType,
+			value: toCanonical(channel.dataType, value, channel.unit) ?? value
+		});
+	}
+
+	return values;
+}
+
+/**
+ * Readings with one more reading per extra channel of each payload
+ * Originals are kept as they are, so expand each batch once; channel readings
+ * carry only the value in its canonical unit
+ */
+export function expandChannels<T extends SensorReading>(readings: T[]): Array<T | SensorReading> {
+	const expanded: Array<T | SensorReading> = [];
+
+	for (const reading of readings) {
+		expanded.push(reading);
+
+		let payload: Record<string, unknown>;
+		try {
+			payload = typeof reading.data === 'string' ? JSON.parse(reading.data) : reading.data;
+		} catch {
+			continue;
+		}
+		if (!payload || typeof payload !== 'object') continue;
+
+		for (const channel of readChannels(reading.dataType, payload)) {
+			if (channel.dataType === reading.dataType) continue;
+
+			expanded.push({
+				deviceId: reading.deviceId,
+				timestamp: reading.timestamp,
+				dataType: channel.dataType,
+				data: JSON.stringify({ value: channel.value }),
+				location: reading.location
+			});
+		}
+	}
+
+	return expanded;
+}
+
+/**
+ * Whether payloads of a data type carry a channel's values
+ */
+export function carriesChannel(sourceType: string, dataType: string): boolean {
+	return channelsOf(sourceType).some((channel) => channel.dataType === dataType);
+}
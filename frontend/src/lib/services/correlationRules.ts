@@ -0,0 +1,303 @@
+import type { AnomalyReport, CorrelationRule, SensorReading } from '$lib/types';
+import { buildDetail } from './anomalyDetection';
+import { expandChannels, primaryValue } from './channels';
+import { IndexedDBDataService } from './dataService';
+import {
+	PAIRING_WINDOW,
+	deriveInstantSeries,
+	integrate,
+	nearest,
+	type TimedValue
+} from './derivedMetrics';
+
+/**
+ * Cross-sensor anomaly rules
+ * Each rule reads several data types at one location over a recent window,
+ * for conditions no single reading shows: the temperature closing in on the
+ * dew point, long humid spells that favour disease, soil getting wetter
+ * without rain, and humidity that stops moving against the temperature.
+ */
+
+const HOUR = 60 * 60 * 1000;
+
+// Frost risk: cold air within a small spread of its dew point
+const FROST_TEMPERATURE = 4;
+const FROST_ALERT_TEMPERATURE = 1;
+const FROST_SPREAD = 2;
+
+// Disease pressure: hours of near-saturated air at temperatures fungi thrive in
+const DISEASE_HUMIDITY = 90;
+const DISEASE_TEMPERATURE: [number, number] = [15, 25];
+const DISEASE_HOURS = 10;
+
+// Irrigation fault: rise in soil moisture, in percentage points, with no rain
+const IRRIGATION_RISE = 10;
+// Without a rain gauge, humidity this high is taken as a sign of rain
+const RAIN_HUMIDITY = 95;
+
+// Humidity coupling: correlation above which humidity follows the temperature,
+// once the temperature has moved enough to tell
+const COUPLING_LIMIT = 0.5;
+const COUPLING_RANGE = 3;
+const MIN_PAIRS = 12;
+
+interface RuleFinding {
+	type: string;
+	threshold: number;
+	actual: number;
+	// Value the report shows, in the rule's data type
+	value: number;
+	severity: AnomalyReport['severity'];
+}
+
+interface RuleDefinition {
+	// Data type the report is filed under
+	dataType: string;
+	// Span before the latest reading the rule reads
+	window: number;
+	// Values of each data type within the window, in time order
+	evaluate: (series: Record<string, TimedValue[]>, end: number) => RuleFinding | null;
+}
+
+/**
+ * Humidity values paired with the nearest temperature
+ */
+function pairWithTemperature(
+	series: Record<string, TimedValue[]>
+): Array<{ timestamp: number; humidity: number; temperature: number }> {
+	const temperature = series.temperature ?? [];
+	return (series.humidity ?? []).flatMap(({ timestamp, value }) => {
+		const paired = nearest(temperature, timestamp, PAIRING_WINDOW);
+		return paired === null ? [] : [{ timestamp, humidity: value, temperature: paired }];
+	});
+}
+
+function correlation(xs: number[], ys: number[]): number {
+	const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+	const meanX = mean(xs);
+	const meanY = mean(ys);
+
+	let covariance = 0;
+	let varianceX = 0;
+	let varianceY = 0;
+	for (let i = 0; i < xs.length; i++) {
+		covariance += (xs[i] - meanX) * (ys[i] - meanY);
+		varianceX += (xs[i] - meanX) ** 2;
+		varianceY += (ys[i] - meanY) ** 2;
+	}
+	return varianceX && varianceY ? covariance / Math.sqrt(varianceX * varianceY) : 0;
+}
+
+export const CORRELATION_RULES: Record<CorrelationRule, RuleDefinition> = {
+	'frost-risk': {
+		dataType: 'temperature',
+		window: 3 * HOUR,
+		evaluate: (series) => {
+			const latest = series.temperature?.at(-1);
+			if (!latest || latest.value > FROST_TEMPERATURE) return null;
+
+			// Dew point as reported, or computed from the humidity
+			const dew = series['dew-point']?.length
+				? series['dew-point']
+				: deriveInstantSeries(series.temperature, series.humidity ?? [])['dew-point'];
+			const dewPoint = nearest(dew, latest.timestamp, PAIRING_WINDOW);
+			if (dewPoint === null || latest.value - dewPoint > FROST_SPREAD) return null;
+
+			return {
+				type: 'frost_risk',
+				threshold: dewPoint,
+				actual: latest.value,
+				value: latest.value,
+				severity: latest.value <= FROST_ALERT_TEMPERATURE ? 'error' : 'warning'
+			};
+		}
+	},
+
+	'disease-pressure': {
+		dataType: 'humidity',
+		window: 48 * HOUR,
+		evaluate: (series, end) => {
+			const pairs = pairWithTemperature(series);
+			if (pairs.length === 0) return null;
+
+			const favourable = pairs.map(({ timestamp, humidity, temperature }) => ({
+				timestamp,
+				value:
+					humidity >= DISEASE_HUMIDITY &&
+					temperature >= DISEASE_TEMPERATURE[0] &&
+					temperature <= DISEASE_TEMPERATURE[1]
+						? 1
+						: 0
+			}));
+			const hours = integrate(favourable, end, (value) => value) / 3600;
+			if (hours < DISEASE_HOURS) return null;
+
+			return {
+				type: 'disease_pressure',
+				threshold: DISEASE_HOURS,
+				actual: hours,
+				value: pairs[pairs.length - 1].humidity,
+				severity: hours >= 2 * DISEASE_HOURS ? 'error' : 'warning'
+			};
+		}
+	},
+
+	'irrigation-fault': {
+		dataType: 'soil-moisture',
+		window: 6 * HOUR,
+		evaluate: (series) => {
+			const moisture = series['soil-moisture'] ?? [];
+
+			// Largest rise of a value over the lowest one before it
+			let lowest = Infinity;
+			let rise = 0;
+			for (const { value } of moisture) {
+				lowest = Math.min(lowest, value);
+				rise = Math.max(rise, value - lowest);
+			}
+			if (rise < IRRIGATION_RISE) return null;
+
+			// Rain can only be ruled out with a rain gauge or the humidity to go on
+			const rainfall = series.rainfall ?? [];
+			const humidity = series.humidity ?? [];
+			if (rainfall.length === 0 && humidity.length === 0) return null;
+
+			const rained =
+				rainfall.length > 0
+					? rainfall.some(({ value }) => value > 0)
+					: humidity.some(({ value }) => value >= RAIN_HUMIDITY);
+			if (rained) return null;
+
+			return {
+				type: 'irrigation_fault',
+				threshold: IRRIGATION_RISE,
+				actual: rise,
+				value: moisture[moisture.length - 1].value,
+				severity: 'warning'
+			};
+		}
+	},
+
+	'humidity-coupling': {
+		dataType: 'humidity',
+		window: 6 * HOUR,
+		evaluate: (series) => {
+			const pairs = pairWithTemperature(series);
+			if (pairs.length < MIN_PAIRS) return null;
+
+			const temperatures = pairs.map((pair) => pair.temperature);
+			if (Math.max(...temperatures) - Math.min(...temperatures) < COUPLING_RANGE) return null;
+
+			const r = correlation(
+				temperatures,
+				pairs.map((pair) => pair.humidity)
+			);
+			if (r <= COUPLING_LIMIT) return null;
+
+			return {
+				type: 'humidity_coupling',
+				threshold: COUPLING_LIMIT,
+				actual: r,
+				value: pairs[pairs.length - 1].humidity,
+				severity: 'warning'
+			};
+		}
+	}
+};
+
+// Longest window any rule reads
+const LONGEST_WINDOW = Math.max(
+	...Object.values(CORRELATION_RULES).map((definition) => definition.window)
+);
+
+/**
+ * Evaluate every rule at each location, as of the location's latest reading
+ * @param readings Readings of any devices and locations; channels are expanded here
+ * @returns A report per rule and location that found its condition
+ */
+export function evaluateCorrelationRules(readings: SensorReading[]): AnomalyReport[] {
+	const locations = new Map<string, SensorReading[]>();
+	for (const reading of expandChannels(readings)) {
+		if (!locations.has(reading.location)) {
+			locations.set(reading.location, []);
+		}
+		locations.get(reading.location)!.push(reading);
+	}
+
+	const reports: AnomalyReport[] = [];
+
+	for (const [location, group] of locations) {
+		group.sort((a, b) => a.timestamp - b.timestamp);
+		const end = group[group.length - 1].timestamp;
+
+		// Values of each data type, and the device of its latest reading
+		const values: Record<string, TimedValue[]> = {};
+		const devices: Record<string, string> = {};
+		for (const reading of group) {
+			let value: number | null;
+			try {
+				const payload = typeof reading.data === 'string' ? JSON.parse(reading.data) : reading.data;
+				value = primaryValue(reading.dataType, payload);
+			} catch {
+				continue;
+			}
+			if (value === null) continue;
+
+			(values[reading.dataType] ??= []).push({ timestamp: reading.timestamp, value });
+			devices[reading.dataType] = reading.deviceId;
+		}
+
+		for (const [rule, definition] of Object.entries(CORRELATION_RULES)) {
+			const start = end - definition.window;
+			const windowed = Object.fromEntries(
+				Object.entries(values).map(([dataType, series]) => [
+					dataType,
+					series.filter(({ timestamp }) => timestamp >= start)
+				])
+			);
+
+			const finding = definition.evaluate(windowed, end);
+			if (!finding) continue;
+
+			reports.push({
+				deviceId: devices[definition.dataType],
+				dataType: definition.dataType,
+				timestamp: end,
+				location,
+				value: finding.value,
+				anomalies: [
+					buildDetail(definition.dataType, finding.type, finding.threshold, finding.actual)
+				],
+				severity: finding.severity,
+				detector: rule as CorrelationRule
+			});
+		}
+	}
+
+	return reports;
+}
+
+/**
+ * Evaluate the rules at the locations of new readings, over the stored readings
+ * around them
+ * @param readings Newly stored readings
+ */
+export async function checkCorrelations(readings: SensorReading[]): Promise<AnomalyReport[]> {
+	const latest = new Map<string, number>();
+	for (const { location, timestamp } of readings) {
+		latest.set(location, Math.max(latest.get(location) ?? -Infinity, timestamp));
+	}
+
+	const reports: AnomalyReport[] = [];
+
+	for (const [location, end] of latest) {
+		const stored = await IndexedDBDataService.getSensorData({
+			location,
+			fromTimestamp: end - LONGEST_WINDOW,
+			toTimestamp: end
+		});
+		reports.push(...evaluateCorrelationRules(stored));
+	}
+
+	return reports;
+}
@@ -1,6 +1,41 @@
-import type { SensorReading, SensorData, LocalDataAggregate, AnomalyReport } from '$lib/types';
-import { detectBatchAnomalies } from './anomalyDetection';
-import { generateMerkleTree } from './merkleTree';
+import type {
+  SensorReading,
+  SensorData,
+  LocalDataAggregate,
+  AnomalyReport,
+  OutboxState,
+  QueuedSensorReading,
+  StoredRecordReceipt,
+  DeadLetter,
+  RollupResolution,
+  BucketSize,
+  AggregationDimension,
+  StatsState,
+  DerivedMetric
+} from '$lib/types';
+import { detectBatchAnomalies, detectThresholdAnomalies } from './anomalyDetection';
+import { generateMerkleTree, buildLayers } from './merkleTree';
+import { addValue, createStats, mergeStats, summarizeStats } from './statistics';
+import { openDatabase, promisifyRequest } from './database';
+import { IndexedDBDataService } from './dataService';
+import { decodeRecords, encodeRecords } from './encryption';
+import { requestOutboxFlush } from './backgroundSync';
+import { getCanonicalUnit, normalizeReadingData } from './units';
+import { carriesChannel, expandChannels, primaryValue } from './channels';
+import {
+  DERIVED_INPUTS,
+  DERIVED_METRICS,
+  PAIRING_WINDOW,
+  deriveDailyValues,
+  deriveInstantSeries,
+  type TimedValue
+} from './derivedMetrics';
+import { getDeviceGaps, getStreamGaps, updateStreamGaps, windowCoverage } from './gapDetection';
+import { prepareBaselines, saveBaselines } from './baselines';
+import { recordAnomalies } from './anomalyLog';
+import { checkCorrelations } from './correlationRules';
+import { checkDeviceHealth } from './sensorHealth';
+import { loadThresholdProfiles } from './thresholdProfiles';
 
 /**
  * Data aggregation service for preparing sensor data for blockchain storage
@@ -8,55 +43,43 @@ import { generateMerkleTree } from './merkleTree';
  */
 
 /**
- * Calculate statistical values from array of numbers
- * @param values Array of numeric values
- * @returns Statistical analysis
+ * Accumulate the statistics of a group of readings
+ * @param readings Array of sensor readings
+ * @returns Mergeable statistics state
  */
-function calculateStatistics(values: number[]): {
-  min: number;
-  max: number;
-  average: number;
-  median: number;
-  standardDeviation: number;
-} {
-  if (values.length === 0) {
-    return {
-      min: 0,
-      max: 0,
-      average: 0,
-      median: 0,
-      standardDeviation: 0
-    };
-  }
-  
-  // Sort values for median calculation
-  const sortedValues = [...values].sort((a, b) => a - b);
-  
-  // Calculate min and max
-  const min = sortedValues[0];
-  const max = sortedValues[sortedValues.length - 1];
+function calculateStatistics(readings: SensorReading[]): StatsState {
+  const stats = createStats();
   
-  // Calculate average
-  const sum = sortedValues.reduce((acc, val) => acc + val, 0);
-  const average = sum / sortedValues.length;
-  
-  // Calculate median
-  const middle = Math.floor(sortedValues.length / 2);
-  const median = sortedValues.length % 2 === 0
-    ? (sortedValues[middle - 1] + sortedValues[middle]) / 2
-    : sortedValues[middle];
+  for (const reading of readings) {
+    addValue(stats, extractNumericValue(reading), reading.timestamp);
+  }
   
-  // Calculate standard deviation
-  const squaredDiffs = sortedValues.map(value => Math.pow(value - average, 2));
-  const variance = squaredDiffs.reduce((acc, val) => acc + val, 0) / sortedValues.length;
-  const standardDeviation = Math.sqrt(variance);
+  return stats;
+}
+
+/**
+ * Aggregate fields summarizing a statistics state
+ * @param stats Statistics state
+ * @returns Statistics fields of a LocalDataAggregate, with the state itself
+ */
+function statisticsFields(stats: StatsState): Pick<
+  LocalDataAggregate,
+  'min' | 'max' | 'average' | 'medianValue' | 'standardDeviation' | 'percentiles' |
+  'histogram' | 'missingCount' | 'timeWeightedAverage' | 'stats'
+> {
+  const summary = summarizeStats(stats);
   
   return {
-    min,
-    max,
-    average,
-    median,
-    standardDeviation
+    min: summary.min,
+    max: summary.max,
+    average: summary.average,
+    medianValue: summary.median,
+    standardDeviation: summary.standardDeviation,
+    percentiles: summary.percentiles,
+    histogram: summary.histogram,
+    missingCount: summary.missing,
+    timeWeightedAverage: summary.timeWeightedAverage,
+    stats
   };
 }
 
@@ -76,24 +99,8 @@ function extractNumericValue(reading: SensorReading): number | null {
       data = reading.data;
     }
     
-    // Try to extract value based on common patterns
-    if (typeof data.value === 'number') {
-      return data.value;
-    }
-    
-    // Try property matching the data type
-    if (reading.dataType && typeof data[reading.dataType] === 'number') {
-      return data[reading.dataType];
-    }
-    
-    // Find first numeric property
-    for (const key in data) {
-      if (typeof data[key] === 'number') {
-        return data[key];
-      }
-    }
-    
-    return null;
+    // The data type's own value in its canonical unit; other channels are read separately
+    return primaryValue(reading.dataType, data);
   } catch (error) {
     console.error('Error extracting numeric value:', error);
     return null;
@@ -116,18 +123,166 @@ export function formatSensorData(reading: SensorReading): SensorData {
 }
 
 /**
- * Aggregate sensor readings by device and data type
+ * Bucket sizes kept up to date as readings are stored, smallest first
+ */
+export const BUCKET_SIZES: BucketSize[] = ['15m', 'hour', 'day', 'week'];
+
+const MINUTE = 60 * 1000;
+
+// Sub-day buckets have a fixed length; days and weeks vary across DST changes
+const FIXED_BUCKET_LENGTHS: Partial<Record<BucketSize, number>> = {
+  '15m': 15 * MINUTE,
+  hour: 60 * MINUTE
+};
+
+const zoneFormats = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Time zone of this device, the default for bucket boundaries
+ */
+export function localTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/**
+ * Wall-clock time in a time zone, encoded as if it were UTC
+ */
+function wallClock(timestamp: number, timeZone: string): number {
+  if (!zoneFormats.has(timeZone)) {
+    zoneFormats.set(timeZone, new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    }));
+  }
+  
+  const parts: Record<string, number> = {};
+  for (const { type, value } of zoneFormats.get(timeZone)!.formatToParts(timestamp)) {
+    parts[type] = Number(value);
+  }
+  
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second)
+    + timestamp % 1000;
+}
+
+/**
+ * Instant at which a time zone's wall clock shows the given time
+ * Times skipped by a DST change resolve to just after the change
+ */
+function fromWallClock(wall: number, timeZone: string): number {
+  const guess = wall - (wallClock(wall, timeZone) - wall);
+  return wall - (wallClock(guess, timeZone) - guess);
+}
+
+/**
+ * Bounds of the bucket a timestamp falls in
+ * @param timestamp Reading time in milliseconds
+ * @param size Bucket size
+ * @param timeZone IANA time zone whose wall clock sets the boundaries
+ * @returns First and last millisecond of the bucket
+ */
+export function getBucketBounds(
+  timestamp: number,
+  size: BucketSize,
+  timeZone: string = localTimeZone()
+): { start: number; end: number } {
+  const wall = wallClock(timestamp, timeZone);
+  const fixedLength = FIXED_BUCKET_LENGTHS[size];
+  
+  if (fixedLength) {
+    // Offsets change on these boundaries, so elapsed wall time is real time
+    const start = timestamp - (wall % fixedLength);
+    return { start, end: start + fixedLength - 1 };
+  }
+  
+  const day = new Date(wall);
+  const startOfDay = Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), day.getUTCDate());
+  const days = size === 'week' ? 7 : 1;
+  // Weeks start on Monday
+  const wallStart = size === 'week'
+    ? startOfDay - ((day.getUTCDay() + 6) % 7) * 24 * 60 * MINUTE
+    : startOfDay;
+  
+  return {
+    start: fromWallClock(wallStart, timeZone),
+    end: fromWallClock(wallStart + days * 24 * 60 * MINUTE, timeZone) - 1
+  };
+}
+
+/**
+ * Dimensions aggregates are grouped by unless told otherwise
+ */
+export const DEFAULT_GROUP_BY: AggregationDimension[] = ['deviceId', 'dataType'];
+
+/**
+ * Value of a dimension an aggregate wasn't grouped by when its readings differ in it
+ */
+export const MIXED_VALUE = '*';
+
+/**
+ * Options for aggregateSensorData
+ */
+export interface AggregationOptions {
+  // Reading fields to group by, in key order
+  groupBy?: AggregationDimension[];
+  // Aggregate each time bucket separately instead of the whole input
+  bucketSize?: BucketSize;
+  timeZone?: string;
+}
+
+/**
+ * Key of an aggregate group: its dimension values, then the bucket start
+ * JSON keeps values containing separators intact
+ */
+export function aggregateKey(values: Array<string | number>): string {
+  return JSON.stringify(values);
+}
+
+/**
+ * Value of a dimension shared by a group of readings
+ */
+function sharedValue(group: SensorReading[], dimension: AggregationDimension): string {
+  const value = group[0][dimension];
+  return group.every(reading => reading[dimension] === value) ? value : MIXED_VALUE;
+}
+
+/**
+ * Aggregate sensor readings by any combination of device, data type and
+ * location, optionally per time bucket
+ * e.g. { groupBy: ['dataType', 'location'], bucketSize: 'day' } gives the
+ * daily statistics of each data type per location across devices. Payload
+ * channels, like a device's battery level, are aggregated as data types of their own
  * @param readings Array of sensor readings
- * @returns Map of aggregated data by device and type
+ * @param options Dimensions to group by, bucket size and the time zone its boundaries follow
+ * @returns Map of aggregated data by group key
  */
 export function aggregateSensorData(
-  readings: SensorReading[]
+  readings: SensorReading[],
+  options: AggregationOptions = {}
 ): Map<string, LocalDataAggregate> {
-  // Group readings by device and data type
+  const { groupBy = DEFAULT_GROUP_BY, bucketSize, timeZone = localTimeZone() } = options;
+  
+  // Group readings by the dimensions, and by bucket start when bucketed
   const groupedReadings = new Map<string, SensorReading[]>();
+  const bucketBounds = new Map<string, { start: number; end: number }>();
   
-  for (const reading of readings) {
-    const key = `${reading.deviceId}-${reading.dataType}`;
+  for (const reading of expandChannels(readings)) {
+    const values: Array<string | number> = groupBy.map(dimension => reading[dimension]);
+    const bounds = bucketSize && getBucketBounds(reading.timestamp, bucketSize, timeZone);
+    if (bounds) {
+      values.push(bounds.start);
+    }
+    
+    const key = aggregateKey(values);
+    if (bounds) {
+      bucketBounds.set(key, bounds);
+    }
+    
     if (!groupedReadings.has(key)) {
       groupedReadings.set(key, []);
     }
@@ -141,73 +296,466 @@ export function aggregateSensorData(
     // Sort by timestamp (ascending)
     group.sort((a, b) => a.timestamp - b.timestamp);
     
-    // Extract timestamps
-    const startTimestamp = group[0].timestamp;
-    const endTimestamp = group[group.length - 1].timestamp;
-    
-    // Extract numeric values for statistics
-    const numericValues: number[] = [];
-    for (const reading of group) {
-      const value = extractNumericValue(reading);
-      if (value !== null) {
-        numericValues.push(value);
-      }
-    }
+    // Extract timestamps; buckets span their whole window
+    const bounds = bucketBounds.get(key);
+    const startTimestamp = bounds?.start ?? group[0].timestamp;
+    const endTimestamp = bounds?.end ?? group[group.length - 1].timestamp;
     
     // Calculate statistics
-    const stats = calculateStatistics(numericValues);
+    const stats = calculateStatistics(group);
     
-    // Check for anomalies
-    const anomalies = detectBatchAnomalies(group);
+    // Check for threshold anomalies; the baselines have already learned the readings
+    const anomalies = detectThresholdAnomalies(group);
     
     // Format sensor data for Merkle tree
     const formattedData = group.map(reading => formatSensorData(reading));
     
-    // Generate Merkle tree
+    // Local digest of the group; it uses device timestamps, so it can't be verified on-chain
     const { merkleRoot } = generateMerkleTree(formattedData);
     
-    // Create aggregate
-    const [deviceId, dataType] = key.split('-');
-    
     aggregates.set(key, {
-      deviceId,
-      dataType,
+      deviceId: sharedValue(group, 'deviceId'),
+      dataType: sharedValue(group, 'dataType'),
+      location: sharedValue(group, 'location'),
+      groupBy,
       startTimestamp,
       endTimestamp,
       recordCount: group.length,
-      min: stats.min,
-      max: stats.max,
-      average: stats.average,
-      medianValue: stats.median,
-      standardDeviation: stats.standardDeviation,
+      ...statisticsFields(stats),
       anomalyCount: anomalies.length,
-      merkleRoot
+      merkleRoot,
+      ...(bucketSize ? { bucketSize, timeZone } : {})
     });
   }
   
   return aggregates;
 }
 
+/**
+ * Merge aggregates of adjacent windows into one covering them all
+ * Statistics are combined from the stored accumulators without the readings;
+ * anomalies are summed per part, and the Merkle root is built over the parts' roots
+ * @param parts Aggregates to merge
+ * @returns The merged aggregate, or null if a part has no accumulator
+ */
+export function mergeAggregates(parts: LocalDataAggregate[]): LocalDataAggregate | null {
+  if (parts.length === 0 || parts.some(part => !part.stats)) {
+    return null;
+  }
+  
+  const ordered = [...parts].sort((a, b) => a.startTimestamp - b.startTimestamp);
+  const shared = (field: AggregationDimension) =>
+    ordered.every(part => part[field] === ordered[0][field]) ? ordered[0][field] : MIXED_VALUE;
+  const stats = ordered.map(part => part.stats!).reduce(mergeStats, createStats());
+  
+  // Coverage of the whole, weighted by the readings each part expected
+  const coverage = ordered.every(part => part.expectedCount !== undefined && part.coverage !== undefined)
+    ? {
+      expectedCount: ordered.reduce((sum, part) => sum + part.expectedCount!, 0),
+      coverage: ordered.reduce((sum, part) => sum + part.coverage! * part.expectedCount!, 0) /
+        ordered.reduce((sum, part) => sum + part.expectedCount!, 0)
+    }
+    : {};
+  
+  return {
+    deviceId: shared('deviceId')!,
+    dataType: shared('dataType')!,
+    location: shared('location'),
+    groupBy: ordered[0].groupBy,
+    startTimestamp: ordered[0].startTimestamp,
+    endTimestamp: Math.max(...ordered.map(part => part.endTimestamp)),
+    recordCount: ordered.reduce((sum, part) => sum + part.recordCount, 0),
+    ...statisticsFields(stats),
+    anomalyCount: ordered.reduce((sum, part) => sum + part.anomalyCount, 0),
+    merkleRoot: buildLayers(ordered.map(part => part.merkleRoot)).at(-1)![0],
+    ...coverage
+  };
+}
+
+/**
+ * Update the stored time buckets that new readings fall in
+ * The smallest size is rebuilt from every stored reading in its window; larger
+ * ones are merged from the next smaller buckets, so a week never rereads its
+ * readings. Each replaces the stored bucket and records its coverage against
+ * the stream's expected sampling interval.
+ * @param readings Newly stored readings
+ * @param sizes Bucket sizes to update, smallest first
+ * @param timeZone Time zone of the bucket boundaries
+ * @returns Promise with the buckets saved
+ */
+export async function updateSensorBuckets(
+  readings: SensorReading[],
+  sizes: BucketSize[] = BUCKET_SIZES,
+  timeZone: string = localTimeZone()
+): Promise<LocalDataAggregate[]> {
+  const saved: LocalDataAggregate[] = [];
+  const intervals = await streamIntervals(readings);
+  
+  for (const [i, bucketSize] of sizes.entries()) {
+    // Buckets nest: every boundary of a size is a boundary of the next smaller one
+    const childSize = BUCKET_SIZES[BUCKET_SIZES.indexOf(bucketSize) - 1];
+    const mergeChildren = childSize !== undefined && sizes.slice(0, i).includes(childSize);
+    
+    // One entry per device, type and bucket touched
+    const touched = aggregateSensorData(readings, { bucketSize, timeZone });
+    
+    for (const { deviceId, dataType, startTimestamp, endTimestamp } of touched.values()) {
+      const window = { deviceId, dataType, fromTimestamp: startTimestamp, toTimestamp: endTimestamp };
+      
+      let bucket: LocalDataAggregate | null | undefined = null;
+      if (mergeChildren) {
+        const children = await IndexedDBDataService.getAggregates({ ...window, bucketSize: childSize });
+        const merged = mergeAggregates(children.filter(child => child.timeZone === timeZone));
+        bucket = merged && { ...merged, startTimestamp, endTimestamp, bucketSize, timeZone };
+      }
+      
+      // Rebuild from the readings at the smallest size, or when a child predates accumulators;
+      // channels are stored inside other types' readings, so all of the device's are read
+      if (!bucket) {
+        const stored = await IndexedDBDataService.getSensorData({
+          deviceId,
+          fromTimestamp: startTimestamp,
+          toTimestamp: endTimestamp
+        });
+        bucket = [...aggregateSensorData(stored, { bucketSize, timeZone }).values()]
+          .find(aggregate => aggregate.dataType === dataType);
+      }
+      if (!bucket) continue;
+      
+      const interval = intervals.get(aggregateKey([deviceId, dataType]));
+      saved.push(await saveBucket({
+        ...bucket,
+        ...(interval ? windowCoverage(bucket.recordCount, startTimestamp, endTimestamp, interval) : {})
+      }));
+    }
+  }
+  
+  return saved;
+}
+
+/**
+ * Expected sampling intervals of device streams, by device and type key
+ * Streams without enough readings to estimate one are left out
+ */
+async function streamIntervals(
+  streams: Array<Pick<SensorReading, 'deviceId' | 'dataType'>>
+): Promise<Map<string, number>> {
+  const intervals = new Map<string, number>();
+  
+  for (const { deviceId, dataType } of streams) {
+    const key = aggregateKey([deviceId, dataType]);
+    if (intervals.has(key)) continue;
+    
+    // Channels are sampled with the readings that carry them
+    const gaps = await getStreamGaps(deviceId, dataType) ??
+      (await getDeviceGaps(deviceId)).find(stream => carriesChannel(stream.dataType, dataType));
+    if (gaps) {
+      intervals.set(key, gaps.expectedInterval);
+    }
+  }
+  
+  return intervals;
+}
+
+/**
+ * Save a time bucket, replacing the stored one of the same series and start
+ * @param bucket Bucket to save
+ * @returns The saved bucket, with the stored one's ID when it replaced it
+ */
+async function saveBucket(bucket: LocalDataAggregate): Promise<LocalDataAggregate> {
+  const { deviceId, dataType, bucketSize, startTimestamp } = bucket;
+  const existing = await IndexedDBDataService.getAggregates({
+    deviceId,
+    dataType,
+    bucketSize,
+    fromTimestamp: startTimestamp,
+    toTimestamp: startTimestamp
+  });
+  
+  const current = existing.find(aggregate => aggregate.startTimestamp === startTimestamp);
+  const aggregate = { ...bucket, ...(current?.id !== undefined ? { id: current.id } : {}) };
+  await IndexedDBDataService.saveAggregate(aggregate);
+  return aggregate;
+}
+
+/**
+ * Bucket sizes derived series are stored at, by metric period
+ */
+const DERIVED_BUCKET_SIZES: Record<'instant' | 'day', BucketSize[]> = {
+  instant: ['15m', 'hour', 'day'],
+  day: ['day']
+};
+
+/**
+ * Update the derived metric buckets of the days new readings fall in
+ * Each device day is recomputed from its stored readings, since daily totals
+ * depend on all of them; week buckets are merged from the days.
+ * @param readings Newly stored readings
+ * @param timeZone Time zone of the day boundaries
+ * @returns Promise with the buckets saved
+ */
+export async function updateDerivedBuckets(
+  readings: SensorReading[],
+  timeZone: string = localTimeZone()
+): Promise<LocalDataAggregate[]> {
+  const days = new Map<string, { deviceId: string; start: number; end: number }>();
+  
+  for (const reading of expandChannels(readings)) {
+    if (!DERIVED_INPUTS.has(reading.dataType)) continue;
+    
+    const { start, end } = getBucketBounds(reading.timestamp, 'day', timeZone);
+    days.set(aggregateKey([reading.deviceId, start]), { deviceId: reading.deviceId, start, end });
+  }
+  
+  const saved: LocalDataAggregate[] = [];
+  for (const day of days.values()) {
+    saved.push(...await deriveDay(day.deviceId, day.start, day.end, timeZone));
+  }
+  
+  return saved;
+}
+
+/**
+ * Recompute every stored derived bucket, e.g. after the metric settings change
+ * The days come from the stored daily buckets of the input sensor types
+ * @param timeZone Time zone of the day boundaries
+ * @returns Promise with the buckets saved
+ */
+export async function rebuildDerivedBuckets(
+  timeZone: string = localTimeZone()
+): Promise<LocalDataAggregate[]> {
+  const rebuild = bucketUpdates.then(async () => {
+    const saved: LocalDataAggregate[] = [];
+    const seen = new Set<string>();
+    
+    for (const dataType of DERIVED_INPUTS) {
+      const dayBuckets = await IndexedDBDataService.getAggregates({ bucketSize: 'day', dataType });
+      
+      for (const { deviceId, startTimestamp, endTimestamp, timeZone: zone } of dayBuckets) {
+        const key = aggregateKey([deviceId, startTimestamp]);
+        if (zone !== timeZone || seen.has(key)) continue;
+        seen.add(key);
+        
+        saved.push(...await deriveDay(deviceId, startTimestamp, endTimestamp, timeZone));
+      }
+    }
+    
+    return saved;
+  });
+  
+  // Queued behind bucket updates of stored batches, like they are behind each other
+  bucketUpdates = rebuild.catch(() => undefined);
+  return rebuild;
+}
+
+/**
+ * Compute and store one device day of derived metrics
+ * Readings just outside the day are loaded too, so its first and last readings can be paired
+ */
+async function deriveDay(
+  deviceId: string,
+  start: number,
+  end: number,
+  timeZone: string
+): Promise<LocalDataAggregate[]> {
+  const stored = expandChannels(await IndexedDBDataService.getSensorData({
+    deviceId,
+    fromTimestamp: start - PAIRING_WINDOW,
+    toTimestamp: end + PAIRING_WINDOW
+  }));
+  if (stored.length === 0) return [];
+  
+  // A metric the device measures itself isn't derived as well
+  const measured = new Set(stored.map(reading => reading.dataType));
+  
+  const location = stored[0].location;
+  const inDay = ({ timestamp }: TimedValue) => timestamp >= start && timestamp <= end;
+  const series = (dataType: string): TimedValue[] => stored
+    .filter(reading => reading.dataType === dataType)
+    .map(reading => ({ timestamp: reading.timestamp, value: extractNumericValue(reading) }))
+    .filter((point): point is TimedValue => point.value !== null)
+    .sort((a, b) => a.timestamp - b.timestamp);
+  
+  // Derived values become readings of their own data type, in its canonical unit
+  const derived: SensorReading[] = [];
+  const addPoints = (metric: DerivedMetric, points: TimedValue[]) => {
+    if (measured.has(metric)) return;
+    
+    for (const { timestamp, value } of points) {
+      derived.push({
+        deviceId,
+        timestamp,
+        dataType: metric,
+        data: JSON.stringify({ value, unit: getCanonicalUnit(metric) }),
+        location
+      });
+    }
+  };
+  
+  const temperature = series('temperature');
+  const intervals = await streamIntervals(
+    [...DERIVED_INPUTS].map(dataType => ({ deviceId, dataType }))
+  );
+  
+  // Coverage of a derived bucket is its input stream's: the readings paired for
+  // instant metrics, every input reading of the day for daily ones
+  const coverageOf = (bucket: LocalDataAggregate) => {
+    const { inputs, period } = DERIVED_METRICS[bucket.dataType as DerivedMetric];
+    const input = inputs[inputs.length - 1];
+    const interval = intervals.get(aggregateKey([deviceId, input]));
+    if (!interval) return {};
+    
+    const count = period === 'day' ? series(input).filter(inDay).length : bucket.recordCount;
+    return windowCoverage(count, bucket.startTimestamp, bucket.endTimestamp, interval);
+  };
+  
+  const instant = deriveInstantSeries(temperature, series('humidity'));
+  addPoints('vpd', instant.vpd.filter(inDay));
+  addPoints('dew-point', instant['dew-point'].filter(inDay));
+  
+  const daily = deriveDailyValues(
+    { temperature: temperature.filter(inDay), light: series('light').filter(inDay) },
+    end
+  );
+  for (const [metric, value] of Object.entries(daily) as Array<[DerivedMetric, number]>) {
+    addPoints(metric, [{ timestamp: start, value }]);
+  }
+  
+  const saved: LocalDataAggregate[] = [];
+  
+  for (const [period, sizes] of Object.entries(DERIVED_BUCKET_SIZES)) {
+    const readings = derived.filter(reading =>
+      DERIVED_METRICS[reading.dataType as DerivedMetric].period === period
+    );
+    
+    for (const bucketSize of sizes) {
+      for (const bucket of aggregateSensorData(readings, { bucketSize, timeZone }).values()) {
+        // Anomalies are detected on the raw readings
+        saved.push(await saveBucket({ ...bucket, anomalyCount: 0, ...coverageOf(bucket) }));
+      }
+    }
+  }
+  
+  // Weeks are merged from their days
+  const week = getBucketBounds(start, 'week', timeZone);
+  for (const dataType of new Set(derived.map(reading => reading.dataType))) {
+    const days = await IndexedDBDataService.getAggregates({
+      deviceId,
+      dataType,
+      bucketSize: 'day',
+      fromTimestamp: week.start,
+      toTimestamp: week.end
+    });
+    const merged = mergeAggregates(days.filter(day => day.timeZone === timeZone));
+    if (!merged) continue;
+    
+    saved.push(await saveBucket({
+      ...merged,
+      startTimestamp: week.start,
+      endTimestamp: week.end,
+      bucketSize: 'week',
+      timeZone
+    }));
+  }
+  
+  return saved;
+}
+
+/**
+ * Length of each rollup period in milliseconds; periods are aligned to UTC
+ */
+export const ROLLUP_PERIODS: Record<RollupResolution, number> = {
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000
+};
+
+/**
+ * Roll confirmed readings up by device, data type and period
+ * Each rollup's Merkle root is built from the stored leaves in record ID order,
+ * so it equals the root of the same on-chain records and can still be proven
+ * @param readings Confirmed readings that carry their on-chain leaf
+ * @param resolution Rollup period
+ * @returns One rollup per device, data type and period
+ */
+export function rollupReadings(
+  readings: QueuedSensorReading[],
+  resolution: RollupResolution
+): LocalDataAggregate[] {
+  const period = ROLLUP_PERIODS[resolution];
+  const groups = new Map<string, QueuedSensorReading[]>();
+  
+  for (const reading of readings) {
+    if (reading.recordId === undefined || !reading.leaf) {
+      throw new Error(`Reading ${reading.id} has no on-chain leaf to roll up`);
+    }
+    
+    const start = Math.floor(reading.timestamp / period) * period;
+    const key = JSON.stringify([reading.deviceId, reading.dataType, start]);
+    if (!groups.has(key)) {
+      groups.set(key, []);
+    }
+    groups.get(key)!.push(reading);
+  }
+  
+  const rollups: LocalDataAggregate[] = [];
+  
+  for (const group of groups.values()) {
+    group.sort((a, b) => a.recordId! - b.recordId!);
+    
+    const stats = calculateStatistics(group);
+    const start = Math.floor(group[0].timestamp / period) * period;
+    rollups.push({
+      deviceId: group[0].deviceId,
+      dataType: group[0].dataType,
+      startTimestamp: start,
+      endTimestamp: start + period - 1,
+      recordCount: group.length,
+      ...statisticsFields(stats),
+      anomalyCount: detectThresholdAnomalies(group).length,
+      merkleRoot: buildLayers(group.map(reading => reading.leaf!)).at(-1)![0],
+      resolution,
+      recordIds: group.map(reading => reading.recordId!)
+    });
+  }
+  
+  return rollups;
+}
+
+/**
+ * Group sensor readings by device ID
+ * @param readings Array of sensor readings
+ * @returns Map of readings by device, in input order
+ */
+export function groupReadingsByDevice<T extends SensorReading>(readings: T[]): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  
+  for (const reading of readings) {
+    if (!groups.has(reading.deviceId)) {
+      groups.set(reading.deviceId, []);
+    }
+    groups.get(reading.deviceId)!.push(reading);
+  }
+  
+  return groups;
+}
+
 /**
  * Prepare batch of sensor data for blockchain storage
+ * Merkle batches are built later from the stored on-chain records, whose
+ * block timestamps are not known until the readings are mined
  * @param readings Array of sensor readings to batch
- * @returns Batch data with Merkle tree information
+ * @returns Batch data with aggregates and anomalies
  */
 export function prepareSensorBatch(readings: SensorReading[]): {
   formattedData: SensorData[];
-  merkleRoot: string;
-  proofs: { [index: number]: string[] };
   aggregates: LocalDataAggregate[];
   anomalies: AnomalyReport[];
 } {
   // Format readings for blockchain storage
   const formattedData = readings.map(reading => formatSensorData(reading));
   
-  // Generate Merkle tree
-  const { merkleRoot, proofs } = generateMerkleTree(formattedData);
-  
-  // Detect anomalies
-  const anomalies = detectBatchAnomalies(readings);
+  // Detect anomalies on every channel
+  const anomalies = detectBatchAnomalies(expandChannels(readings));
   
   // Create aggregates
   const aggregatesMap = aggregateSensorData(readings);
@@ -215,130 +763,386 @@ export function prepareSensorBatch(readings: SensorReading[]): {
   
   return {
     formattedData,
-    merkleRoot,
-    proofs,
     aggregates,
     anomalies
   };
 }
 
+/**
+ * Outbox states that still need to reach the blockchain
+ */
+const UNSYNCED_STATES: OutboxState[] = ['pending', 'in-flight', 'failed'];
+
+// Bucket updates run one after another
+let bucketUpdates: Promise<unknown> = Promise.resolve();
+
 /**
  * Store sensor data in IndexedDB for offline access
  * @param readings Array of sensor readings
  * @returns Promise indicating success
  */
-export async function storeSensorDataOffline(readings: SensorReading[]): Promise<boolean> {
+export async function storeSensorDataOffline(sensorReadings: SensorReading[]): Promise<boolean> {
+  // Readings are stored in canonical units, with the reported unit in the payload
+  const readings = sensorReadings.map(normalizeReadingData);
+  const queuedAt = Date.now();
+  
+  // Baselines are warmed up before the new readings are stored and learned
+  await prepareBaselines(expandChannels(readings));
+  // Without the profiles the readings are still stored, checked against the defaults
+  await loadThresholdProfiles()
+    .catch(error => console.error('Failed to load threshold profiles:', error));
+  const { aggregates, anomalies } = prepareSensorBatch(readings);
+  
+  // Records are sealed before the transaction opens when encryption is on
+  const queued = await encodeRecords('sensorReadings', readings.map(reading => ({
+    ...reading,
+    data: typeof reading.data === 'string' ? reading.data : JSON.stringify(reading.data),
+    syncState: 'pending',
+    queuedAt
+  })));
+  const sealedAggregates = await encodeRecords('dataAggregates', aggregates);
+  
+  const db = await openDatabase();
+  
   return new Promise((resolve, reject) => {
-    // Open IndexedDB
-    const request = indexedDB.open('YieldSyncxSensorDB', 1);
+    const transaction = db.transaction(['sensorReadings', 'dataAggregates'], 'readwrite');
     
-    request.onupgradeneeded = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
-      
-      // Create object stores if they don't exist
-      if (!db.objectStoreNames.contains('sensorReadings')) {
-        const store = db.createObjectStore('sensorReadings', { autoIncrement: true });
-        store.createIndex('deviceId', 'deviceId', { unique: false });
-        store.createIndex('timestamp', 'timestamp', { unique: false });
-        store.createIndex('dataType', 'dataType', { unique: false });
-        store.createIndex('deviceType', ['deviceId', 'dataType'], { unique: false });
-      }
+    // Queue each reading in the outbox
+    const readingsStore = transaction.objectStore('sensorReadings');
+    for (const reading of queued) {
+      readingsStore.add(reading);
+    }
+    
+    // Store the batch's aggregates
+    const aggregatesStore = transaction.objectStore('dataAggregates');
+    for (const aggregate of sealedAggregates) {
+      aggregatesStore.add(aggregate);
+    }
+    
+    transaction.oncomplete = () => {
+      // Flush the new readings as soon as the device is online
+      requestOutboxFlush();
       
-      if (!db.objectStoreNames.contains('dataAggregates')) {
-        const store = db.createObjectStore('dataAggregates', { keyPath: 'id', autoIncrement: true });
-        store.createIndex('deviceId', 'deviceId', { unique: false });
-        store.createIndex('dataType', 'dataType', { unique: false });
-        store.createIndex('deviceType', ['deviceId', 'dataType'], { unique: false });
-      }
+      // Chained so two batches never update the same bucket, baseline or incident at once
+      bucketUpdates = bucketUpdates
+        .then(() => saveBaselines())
+        .then(async () => recordAnomalies([
+          ...anomalies,
+          ...await checkCorrelations(readings),
+          ...await checkDeviceHealth(readings)
+        ]))
+        .then(() => updateStreamGaps(readings))
+        .then(() => updateSensorBuckets(readings))
+        .then(() => updateDerivedBuckets(readings))
+        .catch(error => console.error('Failed to process stored readings:', error));
+      resolve(true);
     };
     
-    request.onsuccess = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
-      const transaction = db.transaction(['sensorReadings', 'dataAggregates'], 'readwrite');
-      
-      // Store each reading
-      const readingsStore = transaction.objectStore('sensorReadings');
-      for (const reading of readings) {
-        readingsStore.add({
-          ...reading,
-          data: typeof reading.data === 'string' ? reading.data : JSON.stringify(reading.data)
-        });
-      }
-      
-      // Generate and store aggregates
-      const { aggregates } = prepareSensorBatch(readings);
-      const aggregatesStore = transaction.objectStore('dataAggregates');
-      
-      for (const aggregate of aggregates) {
-        aggregatesStore.add(aggregate);
-      }
-      
-      transaction.oncomplete = () => {
-        db.close();
-        resolve(true);
-      };
-      
-      transaction.onerror = () => {
-        reject(new Error('Failed to store sensor data in IndexedDB'));
+    transaction.onerror = () => {
+      reject(new Error('Failed to store sensor data in IndexedDB'));
+    };
+  });
+}
+
+/**
+ * Get offline sensor data that hasn't been confirmed on the blockchain
+ * @returns Promise with pending, in-flight and failed readings, oldest first
+ */
+export async function getUnsyncedSensorData(): Promise<QueuedSensorReading[]> {
+  const db = await openDatabase();
+  
+  const stored = await new Promise<QueuedSensorReading[]>((resolve, reject) => {
+    const transaction = db.transaction(['sensorReadings'], 'readonly');
+    const index = transaction.objectStore('sensorReadings').index('syncState');
+    const readings: QueuedSensorReading[] = [];
+    
+    for (const state of UNSYNCED_STATES) {
+      index.openCursor(state).onsuccess = (event) => {
+        const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+        if (!cursor) return;
+        
+        readings.push(cursor.value);
+        cursor.continue();
       };
+    }
+    
+    transaction.oncomplete = () => {
+      resolve(readings.sort((a, b) => a.timestamp - b.timestamp || a.id - b.id));
     };
     
-    request.onerror = () => {
-      reject(new Error('Failed to open IndexedDB'));
+    transaction.onerror = () => {
+      reject(new Error('Failed to get unsynced sensor data'));
     };
   });
+  
+  return decodeRecords<QueuedSensorReading>(stored);
 }
 
 /**
- * Get offline sensor data that hasn't been synced to blockchain
- * @returns Promise with unsynced readings
+ * Count outbox readings in each sync state
+ * @returns Promise with a count per state
  */
-export async function getUnsyncedSensorData(): Promise<SensorReading[]> {
+export async function getOutboxCounts(): Promise<Record<OutboxState, number>> {
+  const db = await openDatabase();
+  
   return new Promise((resolve, reject) => {
-    const request = indexedDB.open('YieldSyncxSensorDB', 1);
+    const transaction = db.transaction(['sensorReadings'], 'readonly');
+    const index = transaction.objectStore('sensorReadings').index('syncState');
+    const counts: Record<OutboxState, number> = {
+      'pending': 0,
+      'in-flight': 0,
+      'confirmed': 0,
+      'failed': 0,
+      'dead-letter': 0
+    };
     
-    request.onsuccess = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
-      
-      // Check if synced flag exists
-      if (!db.objectStoreNames.contains('sensorReadings')) {
-        resolve([]);
-        return;
-      }
-      
-      const transaction = db.transaction(['sensorReadings'], 'readonly');
-      const store = transaction.objectStore('sensorReadings');
-      
-      // Get unsynced readings (all for now - in a real app we'd track which are synced)
-      const getRequest = store.getAll();
-      
-      getRequest.onsuccess = () => {
-        const readings = getRequest.result as SensorReading[];
-        resolve(readings);
-      };
-      
-      getRequest.onerror = () => {
-        reject(new Error('Failed to get unsynced sensor data'));
-      };
-      
-      transaction.oncomplete = () => {
-        db.close();
+    for (const state of Object.keys(counts) as OutboxState[]) {
+      const request = index.count(state);
+      request.onsuccess = () => {
+        counts[state] = request.result;
       };
+    }
+    
+    transaction.oncomplete = () => {
+      resolve(counts);
+    };
+    
+    transaction.onerror = () => {
+      reject(new Error('Failed to count outbox readings'));
     };
+  });
+}
+
+/**
+ * Read outbox readings by ID, opening sealed ones
+ * Encryption is async, so updates read, patch and write in separate transactions;
+ * the sync job is the only writer of a reading's state while it runs
+ * @param ids Array of reading IDs
+ * @returns Promise with the readings that still exist
+ */
+async function readOutboxReadings(ids: number[]): Promise<QueuedSensorReading[]> {
+  const db = await openDatabase();
+  const store = db.transaction(['sensorReadings'], 'readonly').objectStore('sensorReadings');
+  const stored = await Promise.all(ids.map(id => promisifyRequest(store.get(id))));
+  
+  return decodeRecords<QueuedSensorReading>(stored.filter(Boolean));
+}
+
+/**
+ * Apply a patch to a set of outbox readings
+ * @param patches Map of reading ID to a function returning the fields to update
+ * @returns Promise indicating success
+ */
+async function updateOutboxReadings(
+  patches: Map<number, (reading: QueuedSensorReading) => Partial<QueuedSensorReading>>
+): Promise<boolean> {
+  const readings = await readOutboxReadings([...patches.keys()]);
+  const updated = await encodeRecords('sensorReadings', readings.map(reading => ({
+    ...reading,
+    ...patches.get(reading.id)!(reading)
+  })));
+  const db = await openDatabase();
+  
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(['sensorReadings'], 'readwrite');
+    const store = transaction.objectStore('sensorReadings');
+    
+    for (const reading of updated) {
+      store.put(reading);
+    }
+    
+    transaction.oncomplete = () => resolve(true);
     
-    request.onerror = () => {
-      reject(new Error('Failed to open IndexedDB'));
+    transaction.onerror = () => {
+      reject(new Error('Failed to update outbox readings'));
     };
   });
 }
 
+/**
+ * Mark sensor readings as submitted and awaiting confirmation
+ * Each submission counts as one sync attempt
+ * @param ids Array of reading IDs
+ * @returns Promise indicating success
+ */
+export async function markSensorDataInFlight(ids: number[]): Promise<boolean> {
+  return updateOutboxReadings(
+    new Map(ids.map(id => [id, (reading) => ({
+      syncState: 'in-flight',
+      attempts: (reading.attempts ?? 0) + 1
+    })]))
+  );
+}
+
 /**
  * Mark sensor readings as synced to blockchain
+ * @param confirmations Reading IDs with the on-chain record ID and transaction hash
+ * @returns Promise indicating success
+ */
+export async function markSensorDataAsSynced(
+  confirmations: Array<{ id: number } & StoredRecordReceipt>
+): Promise<boolean> {
+  const syncedAt = Date.now();
+  
+  return updateOutboxReadings(
+    new Map(confirmations.map(({ id, recordId, txHash, leaf }) => [
+      id,
+      () => ({
+        syncState: 'confirmed',
+        recordId,
+        txHash,
+        leaf,
+        syncedAt,
+        errorCode: undefined,
+        lastError: undefined
+      })
+    ]))
+  );
+}
+
+/**
+ * Mark sensor readings as failed so the next sync retries them
  * @param ids Array of reading IDs
+ * @param error Reason the submission failed
+ * @param errorCode ErrorService code of the failure
  * @returns Promise indicating success
  */
-export async function markSensorDataAsSynced(ids: number[]): Promise<boolean> {
-  // In a real application, we would update a 'synced' flag for each reading
-  // For this demo, we'll just return success
-  return Promise.resolve(true);
-}
\ No newline at end of file
+export async function markSensorDataFailed(
+  ids: number[],
+  error: string,
+  errorCode?: string
+): Promise<boolean> {
+  return updateOutboxReadings(
+    new Map(ids.map(id => [id, () => ({ syncState: 'failed', errorCode, lastError: error })]))
+  );
+}
+
+/**
+ * Move a reading out of the sync queue into the dead-letter store
+ * @param id Reading ID
+ * @param errorCode ErrorService code of the last failure
+ * @param error Reason the last submission failed
+ * @returns Promise with the dead-letter entry, or null if the reading no longer exists
+ */
+export async function moveToDeadLetter(
+  id: number,
+  errorCode: string,
+  error: string
+): Promise<DeadLetter | null> {
+  const [reading] = await readOutboxReadings([id]);
+  if (!reading) return null;
+  
+  const [updated] = await encodeRecords('sensorReadings', [
+    { ...reading, syncState: 'dead-letter', errorCode, lastError: error }
+  ]);
+  const entry: DeadLetter = {
+    readingId: id,
+    deviceId: reading.deviceId,
+    dataType: reading.dataType,
+    timestamp: reading.timestamp,
+    errorCode,
+    error,
+    attempts: reading.attempts ?? 0,
+    deadLetteredAt: Date.now()
+  };
+  const db = await openDatabase();
+  
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(['sensorReadings', 'deadLetters'], 'readwrite');
+    transaction.objectStore('sensorReadings').put(updated);
+    transaction.objectStore('deadLetters').put(entry);
+    
+    transaction.oncomplete = () => resolve(entry);
+    
+    transaction.onerror = () => {
+      reject(new Error('Failed to dead-letter reading'));
+    };
+  });
+}
+
+/**
+ * Get dead-lettered readings, most recent first
+ * @returns Promise with the dead-letter entries
+ */
+export async function getDeadLetters(): Promise<DeadLetter[]> {
+  const db = await openDatabase();
+  
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(['deadLetters'], 'readonly');
+    const index = transaction.objectStore('deadLetters').index('deadLetteredAt');
+    const entries: DeadLetter[] = [];
+    
+    index.openCursor(null, 'prev').onsuccess = (event) => {
+      const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+      if (!cursor) return;
+      
+      entries.push(cursor.value);
+      cursor.continue();
+    };
+    
+    transaction.oncomplete = () => resolve(entries);
+    
+    transaction.onerror = () => {
+      reject(new Error('Failed to read dead letters'));
+    };
+  });
+}
+
+/**
+ * Return dead-lettered readings to the sync queue with a fresh attempt budget
+ * @param ids Array of reading IDs
+ * @returns Promise indicating success
+ */
+export async function retryDeadLetters(ids: number[]): Promise<boolean> {
+  const requeued = await encodeRecords('sensorReadings', (await readOutboxReadings(ids)).map(reading => ({
+    ...reading,
+    syncState: 'pending',
+    attempts: 0
+  })));
+  const db = await openDatabase();
+  
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(['sensorReadings', 'deadLetters'], 'readwrite');
+    const readings = transaction.objectStore('sensorReadings');
+    const deadLetters = transaction.objectStore('deadLetters');
+    
+    for (const reading of requeued) {
+      readings.put(reading);
+    }
+    for (const id of ids) {
+      deadLetters.delete(id);
+    }
+    
+    transaction.oncomplete = () => resolve(true);
+    
+    transaction.onerror = () => {
+      reject(new Error('Failed to requeue dead letters'));
+    };
+  });
+}
+
+/**
+ * Permanently drop dead-lettered readings and their entries
+ * @param ids Array of reading IDs
+ * @returns Promise indicating success
+ */
+export async function discardDeadLetters(ids: number[]): Promise<boolean> {
+  const db = await openDatabase();
+  
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(['sensorReadings', 'deadLetters'], 'readwrite');
+    const readings = transaction.objectStore('sensorReadings');
+    const deadLetters = transaction.objectStore('deadLetters');
+    
+    for (const id of ids) {
+      readings.delete(id);
+      deadLetters.delete(id);
+    }
+    
+    transaction.oncomplete = () => resolve(true);
+    
+    transaction.onerror = () => {
+      reject(new Error('Failed to discard dead letters'));
+    };
+  });
+}
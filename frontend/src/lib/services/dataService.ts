@@ -1,106 +1,161 @@
-import type { SensorReading, LocalDataAggregate, CropImage } from '$lib/types';
+import type {
+  SensorReading,
+  QueuedSensorReading,
+  LocalDataAggregate,
+  CropImage,
+  RangeQuery,
+  SensorDataQuery,
+  AggregateQuery,
+  ImageQuery,
+  QueryPage
+} from '$lib/types';
+import { openDatabase, promisifyRequest, transactionDone, type StoreName } from './database';
+import { normalizeReadingData } from './units';
+import { decodeRecords, encodeRecord, encodeRecords, type EncryptedStore } from './encryption';
 
-interface IndexedDBConfig {
-  dbName: string;
-  version: number;
-  stores: {
-    [storeName: string]: {
-      keyPath: string;
-      autoIncrement?: boolean;
-      indexes: {
-        name: string;
-        keyPath: string | string[];
-        unique?: boolean;
-      }[];
-    };
-  };
+/**
+ * Index and key range a query walks, with the filters the index can't apply
+ */
+interface QueryPlan<T> {
+  index: string;
+  range: IDBKeyRange;
+  filter?: (record: T) => boolean;
 }
 
-const DB_CONFIG: IndexedDBConfig = {
-  dbName: 'YieldSyncxDB',
-  version: 1,
-  stores: {
-    sensorReadings: {
-      keyPath: 'id',
-      autoIncrement: true,
-      indexes: [
-        { name: 'deviceId', keyPath: 'deviceId', unique: false },
-        { name: 'timestamp', keyPath: 'timestamp', unique: false },
-        { name: 'dataType', keyPath: 'dataType', unique: false },
-        { name: 'deviceType', keyPath: ['deviceId', 'dataType'], unique: false },
-        { name: 'synced', keyPath: 'synced', unique: false }
-      ]
-    },
-    dataAggregates: {
-      keyPath: 'id',
-      autoIncrement: true,
-      indexes: [
-        { name: 'deviceId', keyPath: 'deviceId', unique: false },
-        { name: 'dataType', keyPath: 'dataType', unique: false },
-        { name: 'deviceType', keyPath: ['deviceId', 'dataType'], unique: false },
-        { name: 'timestamp', keyPath: 'startTimestamp', unique: false }
-      ]
-    },
-    cropImages: {
-      keyPath: 'id',
-      autoIncrement: true,
-      indexes: [
-        { name: 'deviceId', keyPath: 'deviceId', unique: false },
-        { name: 'timestamp', keyPath: 'timestamp', unique: false },
-        { name: 'hash', keyPath: 'hash', unique: true }
-      ]
+/**
+ * Plan a walk over an index whose keys end in the timestamp
+ * @param index Index name
+ * @param prefix Fixed key parts before the timestamp
+ * @param query Time range
+ * @param filter Condition checked on each record in the range
+ * @returns The plan, or null when the range is empty
+ */
+function createPlan<T>(
+  index: string,
+  prefix: IDBValidKey[],
+  query: RangeQuery,
+  filter?: (record: T) => boolean
+): QueryPlan<T> | null {
+  const from = query.fromTimestamp ?? -Infinity;
+  const to = query.toTimestamp ?? Infinity;
+  if (from > to) {
+    return null;
+  }
+  
+  const range = prefix.length > 0
+    ? IDBKeyRange.bound([...prefix, from], [...prefix, to])
+    : IDBKeyRange.bound(from, to);
+  return { index, range, filter };
+}
+
+function sensorDataPlan(query: SensorDataQuery): QueryPlan<QueuedSensorReading> | null {
+  const { deviceId, dataType, location, syncState } = query;
+  const bySyncState = syncState
+    ? (reading: QueuedSensorReading) => reading.syncState === syncState
+    : undefined;
+  const byLocation = location !== undefined
+    ? (reading: QueuedSensorReading) =>
+        reading.location === location && (!bySyncState || bySyncState(reading))
+    : bySyncState;
+  
+  if (deviceId !== undefined && dataType !== undefined) {
+    return createPlan('deviceTypeTimestamp', [deviceId, dataType], query, byLocation);
+  }
+  if (deviceId !== undefined) {
+    return createPlan('deviceTimestamp', [deviceId], query, byLocation);
+  }
+  if (location !== undefined) {
+    return createPlan('locationTimestamp', [location], query, (reading: QueuedSensorReading) =>
+      (dataType === undefined || reading.dataType === dataType) &&
+      (!bySyncState || bySyncState(reading))
+    );
+  }
+  if (dataType !== undefined) {
+    return createPlan('typeTimestamp', [dataType], query, bySyncState);
+  }
+  if (syncState) {
+    return createPlan('syncStateTimestamp', [syncState], query);
+  }
+  return createPlan('timestamp', [], query);
+}
+
+function aggregatePlan(query: AggregateQuery): QueryPlan<LocalDataAggregate> | null {
+  const { deviceId, dataType, bucketSize, toTimestamp } = query;
+  // Indexed by start; an aggregate must also end within the range
+  const endsInRange = toTimestamp !== undefined
+    ? (aggregate: LocalDataAggregate) => aggregate.endTimestamp <= toTimestamp
+    : undefined;
+  
+  if (bucketSize !== undefined) {
+    if (deviceId !== undefined && dataType !== undefined) {
+      return createPlan('bucketDeviceTypeTimestamp', [bucketSize, deviceId, dataType], query, endsInRange);
     }
+    return createPlan('bucketTimestamp', [bucketSize], query, (aggregate: LocalDataAggregate) =>
+      (deviceId === undefined || aggregate.deviceId === deviceId) &&
+      (dataType === undefined || aggregate.dataType === dataType) &&
+      (!endsInRange || endsInRange(aggregate))
+    );
+  }
+  if (deviceId !== undefined && dataType !== undefined) {
+    return createPlan('deviceTypeTimestamp', [deviceId, dataType], query, endsInRange);
   }
-};
+  if (deviceId !== undefined) {
+    return createPlan('deviceTimestamp', [deviceId], query, endsInRange);
+  }
+  if (dataType !== undefined) {
+    return createPlan('typeTimestamp', [dataType], query, endsInRange);
+  }
+  return createPlan('timestamp', [], query, endsInRange);
+}
+
+function imagePlan(query: ImageQuery): QueryPlan<CropImage> | null {
+  return query.deviceId !== undefined
+    ? createPlan('deviceTimestamp', [query.deviceId], query)
+    : createPlan('timestamp', [], query);
+}
+
+/**
+ * Page tokens hold the index key and primary key of a page's last record
+ */
+function encodePageToken(key: IDBValidKey, primaryKey: IDBValidKey): string {
+  return btoa(JSON.stringify([key, primaryKey]));
+}
+
+function decodePageToken(token: string): [IDBValidKey, IDBValidKey] {
+  try {
+    const [key, primaryKey] = JSON.parse(atob(token));
+    return [key, primaryKey];
+  } catch {
+    throw new Error('Invalid page token');
+  }
+}
+
+// Order of a cursor relative to a page token position, in index order
+function comparePosition(cursor: IDBCursor, [key, primaryKey]: [IDBValidKey, IDBValidKey]): number {
+  return indexedDB.cmp(cursor.key, key) || indexedDB.cmp(cursor.primaryKey, primaryKey);
+}
 
 export class IndexedDBDataService {
-  private static db: IDBDatabase | null = null;
-  
   private static async getDatabase(): Promise<IDBDatabase> {
-    if (this.db) return this.db;
-    
-    return new Promise((resolve, reject) => {
-      const request = indexedDB.open(DB_CONFIG.dbName, DB_CONFIG.version);
-      
-      request.onerror = () => reject(new Error(IDBTransaction.error?.message ?? 'Failed to save sensor data'));
-      request.onsuccess = () => {
-        this.db = request.result;
-        resolve(this.db);
-      };
-      
-      request.onupgradeneeded = (event) => {
-        const db = (event.target as IDBOpenDBRequest).result;
-        
-        // Create object stores
-        for (const [storeName, config] of Object.entries(DB_CONFIG.stores)) {
-          if (!db.objectStoreNames.contains(storeName)) {
-            const store = db.createObjectStore(storeName, {
-              keyPath: config.keyPath,
-              autoIncrement: config.autoIncrement
-            });
-            
-            // Create indexes
-            for (const index of config.indexes) {
-              store.createIndex(index.name, index.keyPath, { unique: index.unique });
-            }
-          }
-        }
-      };
-    });
+    return openDatabase();
   }
   
   static async saveSensorData(readings: SensorReading[]): Promise<boolean> {
+    // New readings join the outbox in canonical units; restored ones keep their sync state
+    const records = await encodeRecords('sensorReadings', readings.map(normalizeReadingData).map(reading => ({
+      syncState: 'pending',
+      queuedAt: Date.now(),
+      ...reading,
+      data: typeof reading.data === 'string' ? reading.data : JSON.stringify(reading.data)
+    })));
+    
     const db = await this.getDatabase();
     const transaction = db.transaction(['sensorReadings'], 'readwrite');
     const store = transaction.objectStore('sensorReadings');
     
     return new Promise((resolve, reject) => {
-      for (const reading of readings) {
-        store.add({
-          ...reading,
-          synced: false,
-          dateAdded: Date.now()
-        });
+      for (const record of records) {
+        store.add(record);
       }
       
       transaction.oncomplete = () => resolve(true);
@@ -108,212 +163,236 @@ export class IndexedDBDataService {
     });
   }
   
-  static async getSensorData(
-    filters?: {
-      deviceId?: string;
-      dataType?: string;
-      fromTimestamp?: number;
-      toTimestamp?: number;
-      synced?: boolean;
-    }
-  ): Promise<SensorReading[]> {
-    const db = await this.getDatabase();
-    const transaction = db.transaction(['sensorReadings'], 'readonly');
-    const store = transaction.objectStore('sensorReadings');
-    
-    return new Promise((resolve, reject) => {
-      const results: SensorReading[] = [];
-      let request: IDBRequest;
-      
-      if (filters?.deviceId && filters?.dataType) {
-        const index = store.index('deviceType');
-        request = index.openCursor([filters.deviceId, filters.dataType]);
-      } else if (filters?.deviceId) {
-        const index = store.index('deviceId');
-        request = index.openCursor(filters.deviceId);
-      } else if (filters?.synced !== undefined) {
-        const index = store.index('synced');
-        request = index.openCursor(filters.synced);
-      } else {
-        request = store.openCursor();
-      }
-      
-      request.onsuccess = (event) => {
-        const cursor = (event.target as IDBRequest).result;
-        if (cursor) {
-          const record = cursor.value;
-          let include = true;
-          
-          // Apply additional filters
-          if (filters?.fromTimestamp && record.timestamp < filters.fromTimestamp) {
-            include = false;
-          }
-          if (filters?.toTimestamp && record.timestamp > filters.toTimestamp) {
-            include = false;
-          }
-          
-          if (include) {
-            results.push(record);
-          }
-          
-          cursor.continue();
-        } else {
-          resolve(results);
-        }
-      };
-      
-      request.onerror = () => reject(new Error(transaction.error?.message ?? 'Failed to save sensor data'));
-    });
+  static async getSensorData(filters?: SensorDataQuery): Promise<SensorReading[]> {
+    return (await this.querySensorData(filters)).items;
   }
   
-  static async markSensorDataAsSynced(ids: number[]): Promise<boolean> {
+  /**
+   * Query readings through the narrowest compound index for the filters
+   * @param query Filters, time range, order, limit and page token
+   * @returns One page of readings with the token for the next
+   */
+  static async querySensorData(query: SensorDataQuery = {}): Promise<QueryPage<QueuedSensorReading>> {
+    return this.queryPage('sensorReadings', sensorDataPlan(query), query);
+  }
+  
+  /**
+   * Count the readings matching the filters and time range
+   */
+  static async countSensorData(query: SensorDataQuery = {}): Promise<number> {
+    return this.countRecords('sensorReadings', sensorDataPlan(query));
+  }
+  
+  /**
+   * Store an aggregate, replacing the stored one when it has an ID
+   */
+  static async saveAggregate(aggregate: LocalDataAggregate): Promise<boolean> {
+    const record = await encodeRecord('dataAggregates', aggregate);
     const db = await this.getDatabase();
-    const transaction = db.transaction(['sensorReadings'], 'readwrite');
-    const store = transaction.objectStore('sensorReadings');
+    const transaction = db.transaction(['dataAggregates'], 'readwrite');
+    const store = transaction.objectStore('dataAggregates');
     
     return new Promise((resolve, reject) => {
-      for (const id of ids) {
-        const request = store.get(id);
-        
-        request.onsuccess = () => {
-          const record = request.result;
-          if (record) {
-            record.synced = true;
-            store.put(record);
-          }
-        };
-      }
-      
+      store.put(record);
       transaction.oncomplete = () => resolve(true);
       transaction.onerror = () => reject(transaction.error);
     });
   }
   
-  static async saveAggregate(aggregate: LocalDataAggregate): Promise<boolean> {
+  static async getAggregates(filters?: AggregateQuery): Promise<LocalDataAggregate[]> {
+    return (await this.queryAggregates(filters)).items;
+  }
+  
+  /**
+   * Query aggregates lying within the time range, by start timestamp
+   * @param query Filters, time range, order, limit and page token
+   * @returns One page of aggregates with the token for the next
+   */
+  static async queryAggregates(query: AggregateQuery = {}): Promise<QueryPage<LocalDataAggregate>> {
+    return this.queryPage('dataAggregates', aggregatePlan(query), query);
+  }
+  
+  /**
+   * Count the aggregates lying within the time range
+   */
+  static async countAggregates(query: AggregateQuery = {}): Promise<number> {
+    return this.countRecords('dataAggregates', aggregatePlan(query));
+  }
+  
+  static async saveImage(image: CropImage): Promise<boolean> {
+    const record = await encodeRecord('cropImages', image);
     const db = await this.getDatabase();
-    const transaction = db.transaction(['dataAggregates'], 'readwrite');
-    const store = transaction.objectStore('dataAggregates');
+    const transaction = db.transaction(['cropImages'], 'readwrite');
+    const store = transaction.objectStore('cropImages');
     
     return new Promise((resolve, reject) => {
-      store.add(aggregate);
+      store.add(record);
       transaction.oncomplete = () => resolve(true);
       transaction.onerror = () => reject(transaction.error);
+      // Running out of quota aborts the transaction without an error event
+      transaction.onabort = () => reject(transaction.error);
     });
   }
   
-  static async getAggregates(
-    filters?: {
-      deviceId?: string;
-      dataType?: string;
-      fromTimestamp?: number;
-      toTimestamp?: number;
+  /**
+   * Replace a stored image, e.g. after evicting its full-size data
+   * @param image Image with its ID
+   */
+  static async updateImage(image: CropImage & { id: number }): Promise<boolean> {
+    const record = await encodeRecord('cropImages', image);
+    const db = await this.getDatabase();
+    const transaction = db.transaction(['cropImages'], 'readwrite');
+    transaction.objectStore('cropImages').put(record);
+    await transactionDone(transaction);
+    return true;
+  }
+  
+  /**
+   * Record that images have a copy off the device, making them evictable
+   * @param ids Image IDs
+   */
+  static async markImagesSynced(ids: number[]): Promise<boolean> {
+    const db = await this.getDatabase();
+    const source = db.transaction(['cropImages'], 'readonly').objectStore('cropImages');
+    const stored = await Promise.all(ids.map(id => promisifyRequest(source.get(id))));
+    const syncedAt = Date.now();
+    
+    // Sealed records are decoded and re-encoded between the read and the write
+    const images = (await decodeRecords<CropImage>(stored.filter(Boolean)))
+      .filter(image => !image.syncedAt);
+    const records = await encodeRecords('cropImages', images.map(image => ({ ...image, syncedAt })));
+    
+    const transaction = db.transaction(['cropImages'], 'readwrite');
+    const store = transaction.objectStore('cropImages');
+    for (const record of records) {
+      store.put(record);
     }
-  ): Promise<LocalDataAggregate[]> {
+    
+    await transactionDone(transaction);
+    return true;
+  }
+  
+  static async getImages(filters?: ImageQuery): Promise<CropImage[]> {
+    return (await this.queryImages(filters)).items;
+  }
+  
+  /**
+   * Query crop images by device and capture time
+   * @param query Filters, time range, order, limit and page token
+   * @returns One page of images with the token for the next
+   */
+  static async queryImages(query: ImageQuery = {}): Promise<QueryPage<CropImage>> {
+    return this.queryPage('cropImages', imagePlan(query), query);
+  }
+  
+  /**
+   * Count the images matching the device and time range
+   */
+  static async countImages(query: ImageQuery = {}): Promise<number> {
+    return this.countRecords('cropImages', imagePlan(query));
+  }
+  
+  /**
+   * Walk a query plan's index range, resuming after the page token
+   * @param storeName Store the plan's index belongs to
+   * @param plan Index, key range and residual filter, or null for an empty range
+   * @param query Order, limit and page token
+   */
+  private static async queryPage<T>(
+    storeName: EncryptedStore,
+    plan: QueryPlan<T> | null,
+    query: RangeQuery
+  ): Promise<QueryPage<T>> {
+    if (!plan) {
+      return { items: [], nextPageToken: null };
+    }
+    
     const db = await this.getDatabase();
-    const transaction = db.transaction(['dataAggregates'], 'readonly');
-    const store = transaction.objectStore('dataAggregates');
+    const transaction = db.transaction([storeName], 'readonly');
+    const index = transaction.objectStore(storeName).index(plan.index);
+    const direction = query.order === 'desc' ? 'prev' : 'next';
+    const limit = query.limit && query.limit > 0 ? query.limit : Infinity;
+    let resumeAfter = query.pageToken ? decodePageToken(query.pageToken) : null;
     
-    return new Promise((resolve, reject) => {
-      const results: LocalDataAggregate[] = [];
-      let request: IDBRequest;
+    // Plan filters read clear fields only, so sealed records are opened once the page is complete
+    const page = await new Promise<QueryPage<T>>((resolve, reject) => {
+      const items: T[] = [];
+      const request = index.openCursor(plan.range, direction);
       
-      if (filters?.deviceId && filters?.dataType) {
-        const index = store.index('deviceType');
-        request = index.openCursor([filters.deviceId, filters.dataType]);
-      } else if (filters?.deviceId) {
-        const index = store.index('deviceId');
-        request = index.openCursor(filters.deviceId);
-      } else {
-        request = store.openCursor();
-      }
-      
-      request.onsuccess = (event) => {
-        const cursor = (event.target as IDBRequest).result;
-        if (cursor) {
-          const record = cursor.value;
-          let include = true;
-          
-          // Apply additional filters
-          if (filters?.fromTimestamp && record.startTimestamp < filters.fromTimestamp) {
-            include = false;
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          resolve({ items, nextPageToken: null });
+          return;
+        }
+        
+        // Skip to just past the last record of the previous page
+        if (resumeAfter) {
+          const position = comparePosition(cursor, resumeAfter) * (direction === 'prev' ? -1 : 1);
+          if (position < 0) {
+            cursor.continuePrimaryKey(resumeAfter[0], resumeAfter[1]);
+            return;
           }
-          if (filters?.toTimestamp && record.endTimestamp > filters.toTimestamp) {
-            include = false;
+          resumeAfter = null;
+          if (position === 0) {
+            cursor.continue();
+            return;
           }
+        }
+        
+        const record = cursor.value as T;
+        if (!plan.filter || plan.filter(record)) {
+          items.push(record);
           
-          if (include) {
-            results.push(record);
+          if (items.length >= limit) {
+            resolve({ items, nextPageToken: encodePageToken(cursor.key, cursor.primaryKey) });
+            return;
           }
-          
-          cursor.continue();
-        } else {
-          resolve(results);
         }
+        
+        cursor.continue();
       };
       
-      request.onerror = () => reject(new Error(transaction.error?.message ?? 'Failed to save sensor data'));
+      request.onerror = () => reject(new Error(request.error?.message ?? `Failed to query ${storeName}`));
     });
-  }
-  
-  static async saveImage(image: CropImage): Promise<boolean> {
-    const db = await this.getDatabase();
-    const transaction = db.transaction(['cropImages'], 'readwrite');
-    const store = transaction.objectStore('cropImages');
     
-    return new Promise((resolve, reject) => {
-      store.add(image);
-      transaction.oncomplete = () => resolve(true);
-      transaction.onerror = () => reject(transaction.error);
-    });
+    return { ...page, items: await decodeRecords<T>(page.items) };
   }
   
-  static async getImages(
-    filters?: {
-      deviceId?: string;
-      fromTimestamp?: number;
-      toTimestamp?: number;
+  /**
+   * Count a query plan's matches, straight from the index when nothing is left to filter
+   */
+  private static async countRecords<T>(storeName: StoreName, plan: QueryPlan<T> | null): Promise<number> {
+    if (!plan) {
+      return 0;
     }
-  ): Promise<CropImage[]> {
+    
     const db = await this.getDatabase();
-    const transaction = db.transaction(['cropImages'], 'readonly');
-    const store = transaction.objectStore('cropImages');
+    const index = db.transaction([storeName], 'readonly').objectStore(storeName).index(plan.index);
     
+    if (!plan.filter) {
+      return promisifyRequest(index.count(plan.range));
+    }
+    
+    const filter = plan.filter;
     return new Promise((resolve, reject) => {
-      const results: CropImage[] = [];
-      let request: IDBRequest;
-      
-      if (filters?.deviceId) {
-        const index = store.index('deviceId');
-        request = index.openCursor(filters.deviceId);
-      } else {
-        request = store.openCursor();
-      }
+      let count = 0;
+      const request = index.openCursor(plan.range);
       
-      request.onsuccess = (event) => {
-        const cursor = (event.target as IDBRequest).result;
-        if (cursor) {
-          const record = cursor.value;
-          let include = true;
-          
-          // Apply additional filters
-          if (filters?.fromTimestamp && record.timestamp < filters.fromTimestamp) {
-            include = false;
-          }
-          if (filters?.toTimestamp && record.timestamp > filters.toTimestamp) {
-            include = false;
-          }
-          
-          if (include) {
-            results.push(record);
-          }
-          
-          cursor.continue();
-        } else {
-          resolve(results);
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          resolve(count);
+          return;
+        }
+        
+        if (filter(cursor.value as T)) {
+          count++;
         }
+        cursor.continue();
       };
       
-      request.onerror = () => reject(new Error(transaction.error?.message ?? 'Failed to save sensor data'));
+      request.onerror = () => reject(new Error(request.error?.message ?? `Failed to count ${storeName}`));
     });
   }
   
@@ -322,13 +401,27 @@ export class IndexedDBDataService {
     
     return new Promise((resolve, reject) => {
       const transaction = db.transaction(
-        ['sensorReadings', 'dataAggregates', 'cropImages'],
+        [
+          'sensorReadings',
+          'dataAggregates',
+          'cropImages',
+          'streamGaps',
+          'baselines',
+          'anomalyIncidents',
+          'deadLetters'
+        ],
         'readwrite'
       );
       
       transaction.objectStore('sensorReadings').clear();
       transaction.objectStore('dataAggregates').clear();
       transaction.objectStore('cropImages').clear();
+      // Gaps and baselines are learned from the readings
+      transaction.objectStore('streamGaps').clear();
+      transaction.objectStore('baselines').clear();
+      transaction.objectStore('anomalyIncidents').clear();
+      // Dead letters point at readings by ID
+      transaction.objectStore('deadLetters').clear();
       
       transaction.oncomplete = () => resolve(true);
       transaction.onerror = () => reject(new Error(transaction.error?.message ?? 'Failed to save sensor data'));
@@ -0,0 +1,391 @@
+import type { SensorReading } from '$lib/types';
+
+/**
+ * Local storage layer for YieldSyncx
+ * Owns the single versioned IndexedDB schema shared by every offline service
+ */
+
+export const DB_NAME = 'YieldSyncxDB';
+
+export type StoreName =
+	| 'sensorReadings'
+	| 'dataAggregates'
+	| 'cropImages'
+	| 'meta'
+	| 'deadLetters'
+	| 'streamGaps'
+	| 'baselines'
+	| 'anomalyIncidents'
+	| 'thresholdProfiles'
+	| 'thresholdVersions'
+	| 'cropStages';
+
+interface Migration {
+	version: number;
+	description: string;
+	migrate: (db: IDBDatabase, transaction: IDBTransaction) => void;
+}
+
+/**
+ * Ordered schema migrations, one per database version
+ * Never edit a released step; append a new one instead
+ */
+const MIGRATIONS: Migration[] = [
+	{
+		version: 1,
+		description: 'Sensor reading, aggregate and crop image stores',
+		migrate: (db) => {
+			const readings = db.createObjectStore('sensorReadings', {
+				keyPath: 'id',
+				autoIncrement: true
+			});
+			readings.createIndex('deviceId', 'deviceId', { unique: false });
+			readings.createIndex('timestamp', 'timestamp', { unique: false });
+			readings.createIndex('dataType', 'dataType', { unique: false });
+			readings.createIndex('deviceType', ['deviceId', 'dataType'], { unique: false });
+			readings.createIndex('synced', 'synced', { unique: false });
+
+			const aggregates = db.createObjectStore('dataAggregates', {
+				keyPath: 'id',
+				autoIncrement: true
+			});
+			aggregates.createIndex('deviceId', 'deviceId', { unique: false });
+			aggregates.createIndex('dataType', 'dataType', { unique: false });
+			aggregates.createIndex('deviceType', ['deviceId', 'dataType'], { unique: false });
+			aggregates.createIndex('timestamp', 'startTimestamp', { unique: false });
+
+			const images = db.createObjectStore('cropImages', { keyPath: 'id', autoIncrement: true });
+			images.createIndex('deviceId', 'deviceId', { unique: false });
+			images.createIndex('timestamp', 'timestamp', { unique: false });
+			images.createIndex('hash', 'hash', { unique: true });
+		}
+	},
+	{
+		version: 2,
+		description: 'Outbox sync state, non-unique image hashes and a metadata store',
+		migrate: (db, transaction) => {
+			// Replace the boolean synced flag with the outbox state
+			const readings = transaction.objectStore('sensorReadings');
+			readings.deleteIndex('synced');
+			readings.createIndex('syncState', 'syncState', { unique: false });
+
+			readings.openCursor().onsuccess = (event) => {
+				const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+				if (!cursor) return;
+
+				const reading = { ...cursor.value };
+				reading.syncState = reading.synced ? 'confirmed' : 'pending';
+				reading.queuedAt = reading.dateAdded ?? reading.timestamp;
+				delete reading.synced;
+				delete reading.dateAdded;
+				cursor.update(reading);
+				cursor.continue();
+			};
+
+			// Captured images were hashed from a partial data URL, so hashes can collide
+			const images = transaction.objectStore('cropImages');
+			images.deleteIndex('hash');
+			images.createIndex('hash', 'hash', { unique: false });
+
+			db.createObjectStore('meta', { keyPath: 'key' });
+		}
+	},
+	{
+		version: 3,
+		description: 'Dead-letter store for readings that repeatedly fail to sync',
+		migrate: (db) => {
+			const deadLetters = db.createObjectStore('deadLetters', { keyPath: 'readingId' });
+			deadLetters.createIndex('deadLetteredAt', 'deadLetteredAt', { unique: false });
+		}
+	},
+	{
+		version: 4,
+		description: 'Compound indexes ending in the timestamp for range queries',
+		migrate: (db, transaction) => {
+			const readings = transaction.objectStore('sensorReadings');
+			readings.createIndex('deviceTypeTimestamp', ['deviceId', 'dataType', 'timestamp'], {
+				unique: false
+			});
+			readings.createIndex('deviceTimestamp', ['deviceId', 'timestamp'], { unique: false });
+			readings.createIndex('typeTimestamp', ['dataType', 'timestamp'], { unique: false });
+			readings.createIndex('syncStateTimestamp', ['syncState', 'timestamp'], { unique: false });
+
+			const aggregates = transaction.objectStore('dataAggregates');
+			aggregates.createIndex('deviceTypeTimestamp', ['deviceId', 'dataType', 'startTimestamp'], {
+				unique: false
+			});
+			aggregates.createIndex('deviceTimestamp', ['deviceId', 'startTimestamp'], { unique: false });
+			aggregates.createIndex('typeTimestamp', ['dataType', 'startTimestamp'], { unique: false });
+
+			const images = transaction.objectStore('cropImages');
+			images.createIndex('deviceTimestamp', ['deviceId', 'timestamp'], { unique: false });
+		}
+	},
+	{
+		version: 5,
+		description: 'Time bucket indexes on aggregates',
+		migrate: (db, transaction) => {
+			// Aggregates without a bucket size are left out of these indexes
+			const aggregates = transaction.objectStore('dataAggregates');
+			aggregates.createIndex(
+				'bucketDeviceTypeTimestamp',
+				['bucketSize', 'deviceId', 'dataType', 'startTimestamp'],
+				{ unique: false }
+			);
+			aggregates.createIndex('bucketTimestamp', ['bucketSize', 'startTimestamp'], {
+				unique: false
+			});
+		}
+	},
+	{
+		version: 6,
+		description: 'Sampling interval and gap list of each device stream',
+		migrate: (db) => {
+			const gaps = db.createObjectStore('streamGaps', { keyPath: ['deviceId', 'dataType'] });
+			gaps.createIndex('deviceId', 'deviceId', { unique: false });
+		}
+	},
+	{
+		version: 7,
+		description: 'Learned anomaly detection baseline of each device stream',
+		migrate: (db) => {
+			const baselines = db.createObjectStore('baselines', { keyPath: ['deviceId', 'dataType'] });
+			baselines.createIndex('deviceId', 'deviceId', { unique: false });
+		}
+	},
+	{
+		version: 8,
+		description: 'Anomaly incident log',
+		migrate: (db) => {
+			const incidents = db.createObjectStore('anomalyIncidents', {
+				keyPath: 'id',
+				autoIncrement: true
+			});
+			incidents.createIndex('condition', ['deviceId', 'dataType', 'detector'], { unique: false });
+			incidents.createIndex('status', 'status', { unique: false });
+			incidents.createIndex('lastSeen', 'lastSeen', { unique: false });
+		}
+	},
+	{
+		version: 9,
+		description: 'Scoped threshold profiles, their past versions and the crop stage plan',
+		migrate: (db) => {
+			const profiles = db.createObjectStore('thresholdProfiles', {
+				keyPath: 'id',
+				autoIncrement: true
+			});
+			profiles.createIndex('dataType', 'dataType', { unique: false });
+
+			const versions = db.createObjectStore('thresholdVersions', { keyPath: ['id', 'version'] });
+			versions.createIndex('id', 'id', { unique: false });
+
+			const stages = db.createObjectStore('cropStages', { keyPath: 'id', autoIncrement: true });
+			stages.createIndex('location', 'location', { unique: false });
+		}
+	},
+	{
+		version: 10,
+		description: 'Readings by location, for checks that compare the devices at one location',
+		// Readings sealed before this version keep their location sealed and stay out of
+		// the index; the checks using it only look at recent readings
+		migrate: (db, transaction) => {
+			transaction
+				.objectStore('sensorReadings')
+				.createIndex('locationTimestamp', ['location', 'timestamp'], { unique: false });
+		}
+	}
+];
+
+export const DB_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Databases opened by earlier versions of the app, imported once and then deleted
+ */
+const LEGACY_DATABASES = ['YieldSyncxSensorDB', 'YieldSyncxImageDB'];
+
+const LEGACY_IMPORT_KEY = 'legacyImport';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Wrap an IndexedDB request in a promise
+ * @param request Request to wait for
+ * @returns Promise with the request result
+ */
+export function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+	return new Promise((resolve, reject) => {
+		request.onsuccess = () => resolve(request.result);
+		request.onerror = () => reject(new Error(request.error?.message ?? 'IndexedDB request failed'));
+	});
+}
+
+/**
+ * Wait for a transaction to commit
+ * @param transaction Transaction to wait for
+ * @returns Promise resolved once the transaction completes
+ */
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+	return new Promise((resolve, reject) => {
+		transaction.oncomplete = () => resolve();
+		transaction.onerror = () =>
+			reject(new Error(transaction.error?.message ?? 'IndexedDB transaction failed'));
+		transaction.onabort = () =>
+			reject(new Error(transaction.error?.message ?? 'IndexedDB transaction aborted'));
+	});
+}
+
+/**
+ * Open the shared database, running any pending migrations and the legacy import
+ * @returns Promise with the open database connection
+ */
+export function openDatabase(): Promise<IDBDatabase> {
+	databasePromise ??= upgradeDatabase()
+		.then(async (db) => {
+			await importLegacyDatabases(db);
+			return db;
+		})
+		.catch((error) => {
+			databasePromise = null;
+			throw error;
+		});
+
+	return databasePromise;
+}
+
+/**
+ * Open the database and apply migrations newer than its current version
+ */
+function upgradeDatabase(): Promise<IDBDatabase> {
+	return new Promise((resolve, reject) => {
+		const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+		request.onupgradeneeded = (event) => {
+			const db = request.result;
+			const transaction = request.transaction!;
+
+			for (const migration of MIGRATIONS) {
+				if (migration.version > event.oldVersion) {
+					migration.migrate(db, transaction);
+				}
+			}
+		};
+
+		request.onsuccess = () => {
+			const db = request.result;
+
+			// Let another tab upgrade the schema; the next call reopens
+			db.onversionchange = () => {
+				db.close();
+				databasePromise = null;
+			};
+
+			resolve(db);
+		};
+
+		request.onerror = () =>
+			reject(new Error(request.error?.message ?? `Failed to open ${DB_NAME}`));
+		request.onblocked = () => console.warn(`${DB_NAME} upgrade is waiting for other tabs to close`);
+	});
+}
+
+/**
+ * Move data from the legacy per-service databases into the shared schema
+ * @param db Open shared database
+ */
+async function importLegacyDatabases(db: IDBDatabase): Promise<void> {
+	const meta = db.transaction('meta', 'readonly').objectStore('meta');
+	if (await promisifyRequest(meta.get(LEGACY_IMPORT_KEY))) return;
+
+	const existing = await listDatabaseNames();
+
+	for (const name of LEGACY_DATABASES) {
+		if (existing && !existing.includes(name)) continue;
+
+		try {
+			await importLegacyDatabase(db, name);
+		} catch (error) {
+			// Leave the legacy database in place so no data is lost
+			console.error(`Failed to import ${name}:`, error);
+			return;
+		}
+	}
+
+	const transaction = db.transaction('meta', 'readwrite');
+	transaction.objectStore('meta').put({ key: LEGACY_IMPORT_KEY, value: Date.now() });
+	await transactionDone(transaction);
+}
+
+/**
+ * List existing database names, or null when the browser can't enumerate them
+ */
+async function listDatabaseNames(): Promise<string[] | null> {
+	if (typeof indexedDB.databases !== 'function') return null;
+
+	const databases = await indexedDB.databases();
+	return databases.map((database) => database.name ?? '');
+}
+
+/**
+ * Copy every record of one legacy database, then delete it
+ * @param db Open shared database
+ * @param name Legacy database name
+ */
+async function importLegacyDatabase(db: IDBDatabase, name: string): Promise<void> {
+	const legacy = await promisifyRequest(indexedDB.open(name));
+	const stores = (['sensorReadings', 'dataAggregates', 'cropImages'] as const).filter((store) =>
+		legacy.objectStoreNames.contains(store)
+	);
+
+	const records = new Map<StoreName, Record<string, unknown>[]>();
+	if (stores.length > 0) {
+		const source = legacy.transaction(stores, 'readonly');
+		const rows = await Promise.all(
+			stores.map((store) => promisifyRequest(source.objectStore(store).getAll()))
+		);
+		stores.forEach((store, i) => records.set(store, rows[i]));
+	}
+	legacy.close();
+
+	if (stores.length > 0) {
+		const transaction = db.transaction(stores, 'readwrite');
+
+		for (const [store, rows] of records) {
+			const target = transaction.objectStore(store);
+
+			for (const row of rows) {
+				// Legacy keys collide with existing ones, so let the store assign new ids
+				const record = { ...row };
+				delete record.id;
+
+				if (store === 'sensorReadings') {
+					target.add(toQueuedReading(record as unknown as SensorReading));
+				} else if (store === 'cropImages') {
+					// Skip images that were also saved to the shared database
+					const existing = target.index('hash').count(record.hash as string);
+					existing.onsuccess = () => {
+						if (existing.result === 0) target.add(record);
+					};
+				} else {
+					target.add(record);
+				}
+			}
+		}
+
+		await transactionDone(transaction);
+	}
+
+	const deletion = indexedDB.deleteDatabase(name);
+	deletion.onerror = () => console.error(`Failed to delete ${name}:`, deletion.error);
+}
+
+/**
+ * Normalize a legacy reading into an outbox record
+ */
+function toQueuedReading(reading: SensorReading & { syncState?: string; queuedAt?: number }) {
+	return {
+		...reading,
+		data: typeof reading.data === 'string' ? reading.data : JSON.stringify(reading.data),
+		syncState: reading.syncState ?? 'pending',
+		queuedAt: reading.queuedAt ?? reading.timestamp
+	};
+}
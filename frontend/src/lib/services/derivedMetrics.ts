@@ -0,0 +1,310 @@
+import type { DerivedMetric, DerivedMetricSettings } from '$lib/types';
+
+/**
+ * Agronomic metrics derived from raw readings
+ * Formulas work on canonical values: °C, % relative humidity and lux. Derived
+ * values are stored as time buckets of their own data type, next to the sensor
+ * types they come from.
+ */
+
+export interface TimedValue {
+	timestamp: number;
+	value: number;
+}
+
+interface DerivedMetricDefinition {
+	label: string;
+	// Sensor types the metric is computed from
+	inputs: string[];
+	// Instant metrics get a value per paired reading; daily ones a total per day
+	period: 'instant' | 'day';
+	// Daily totals that are summed over the season when charted
+	cumulative: boolean;
+}
+
+export const DERIVED_METRICS: Record<DerivedMetric, DerivedMetricDefinition> = {
+	vpd: {
+		label: 'Vapour Pressure Deficit',
+		inputs: ['temperature', 'humidity'],
+		period: 'instant',
+		cumulative: false
+	},
+	'dew-point': {
+		label: 'Dew Point',
+		inputs: ['temperature', 'humidity'],
+		period: 'instant',
+		cumulative: false
+	},
+	gdd: {
+		label: 'Growing Degree Days',
+		inputs: ['temperature'],
+		period: 'day',
+		cumulative: true
+	},
+	dli: {
+		label: 'Daily Light Integral',
+		inputs: ['light'],
+		period: 'day',
+		cumulative: false
+	},
+	'chill-hours': {
+		label: 'Chill Hours',
+		inputs: ['temperature'],
+		period: 'day',
+		cumulative: true
+	}
+};
+
+/**
+ * Sensor types any derived metric is computed from
+ */
+export const DERIVED_INPUTS = new Set(
+	Object.values(DERIVED_METRICS).flatMap((definition) => definition.inputs)
+);
+
+export function isDerivedMetric(dataType: string): dataType is DerivedMetric {
+	return dataType in DERIVED_METRICS;
+}
+
+// Longest gap between a temperature and a humidity reading that are paired
+export const PAIRING_WINDOW = 10 * 60 * 1000;
+
+// Longest a reading is assumed to hold when integrating over a day
+const MAX_HOLD = 60 * 60 * 1000;
+
+// Photosynthetic photon flux density per lux of sunlight, in µmol/m²/s
+const PPFD_PER_LUX = 0.0185;
+
+const SETTINGS_KEY = 'derivedMetrics';
+
+export const DEFAULT_DERIVED_SETTINGS: DerivedMetricSettings = {
+	gddBaseTemperature: 10,
+	gddCapTemperature: 30,
+	gddSeasonStart: '01-01',
+	chillMinTemperature: 0,
+	chillMaxTemperature: 7.2,
+	chillSeasonStart: '10-01'
+};
+
+export function getDerivedSettings(): DerivedMetricSettings {
+	if (typeof localStorage === 'undefined') return DEFAULT_DERIVED_SETTINGS;
+
+	try {
+		const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? 'null');
+		return { ...DEFAULT_DERIVED_SETTINGS, ...stored };
+	} catch {
+		return DEFAULT_DERIVED_SETTINGS;
+	}
+}
+
+export function setDerivedSettings(settings: DerivedMetricSettings): void {
+	const seasonStart = (value: string, fallback: string) =>
+		/^(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/.test(value) ? value : fallback;
+
+	localStorage.setItem(
+		SETTINGS_KEY,
+		JSON.stringify({
+			...settings,
+			gddSeasonStart: seasonStart(settings.gddSeasonStart, DEFAULT_DERIVED_SETTINGS.gddSeasonStart),
+			chillSeasonStart: seasonStart(
+				settings.chillSeasonStart,
+				DEFAULT_DERIVED_SETTINGS.chillSeasonStart
+			)
+		})
+	);
+}
+
+/**
+ * Saturation vapour pressure in kPa (Tetens)
+ */
+export function saturationVapourPressure(temperature: number): number {
+	return 0.6108 * Math.exp((17.27 * temperature) / (temperature + 237.3));
+}
+
+/**
+ * Vapour pressure deficit in kPa
+ */
+export function vapourPressureDeficit(temperature: number, humidity: number): number {
+	const relative = Math.min(Math.max(humidity, 0), 100) / 100;
+	return saturationVapourPressure(temperature) * (1 - relative);
+}
+
+/**
+ * Dew point in °C (Magnus), or null when the air holds no water
+ */
+export function dewPoint(temperature: number, humidity: number): number | null {
+	if (humidity <= 0) return null;
+
+	const a = 17.62;
+	const b = 243.12;
+	const gamma = Math.log(Math.min(humidity, 100) / 100) + (a * temperature) / (b + temperature);
+	return (b * gamma) / (a - gamma);
+}
+
+/**
+ * Growing degree days of one day from its extremes
+ * Both extremes are clamped between the base and the cap before averaging
+ */
+export function growingDegreeDays(
+	min: number,
+	max: number,
+	base: number,
+	cap: number = Infinity
+): number {
+	const clamp = (value: number) => Math.min(Math.max(value, base), cap);
+	return Math.max(0, (clamp(min) + clamp(max)) / 2 - base);
+}
+
+/**
+ * Integrate a function of the values over time, in seconds
+ * Each value holds until the next one, at most MAX_HOLD and never past the end
+ * @param series Values in time order
+ * @param end Last millisecond of the window
+ */
+export function integrate(series: TimedValue[], end: number, f: (value: number) => number): number {
+	let total = 0;
+
+	for (const [i, { timestamp, value }] of series.entries()) {
+		const next = series[i + 1]?.timestamp ?? end + 1;
+		total += (f(value) * Math.min(next - timestamp, MAX_HOLD)) / 1000;
+	}
+
+	return total;
+}
+
+/**
+ * Daily light integral in mol/m²/day, from lux readings in time order
+ */
+export function dailyLightIntegral(light: TimedValue[], end: number): number {
+	return integrate(light, end, (lux) => Math.max(0, lux) * PPFD_PER_LUX) / 1e6;
+}
+
+/**
+ * Hours spent within the chill range, from temperatures in time order
+ */
+export function chillHours(
+	temperature: TimedValue[],
+	end: number,
+	min: number,
+	max: number
+): number {
+	return integrate(temperature, end, (value) => (value >= min && value <= max ? 1 : 0)) / 3600;
+}
+
+/**
+ * Value of the reading closest in time, within the window
+ * @param series Values in time order
+ */
+export function nearest(series: TimedValue[], timestamp: number, window: number): number | null {
+	// Binary search for the first value at or after the timestamp
+	let low = 0;
+	let high = series.length;
+	while (low < high) {
+		const middle = (low + high) >> 1;
+		if (series[middle].timestamp < timestamp) low = middle + 1;
+		else high = middle;
+	}
+
+	const candidates = [series[low - 1], series[low]].filter(
+		(candidate) => candidate && Math.abs(candidate.timestamp - timestamp) <= window
+	);
+	candidates.sort((a, b) => Math.abs(a.timestamp - timestamp) - Math.abs(b.timestamp - timestamp));
+	return candidates[0]?.value ?? null;
+}
+
+/**
+ * Instant metrics at each humidity reading, paired with the nearest temperature
+ * @param temperature Temperatures in time order
+ * @param humidity Relative humidities in time order
+ * @param window Longest gap between paired readings
+ */
+export function deriveInstantSeries(
+	temperature: TimedValue[],
+	humidity: TimedValue[],
+	window: number = PAIRING_WINDOW
+): Record<'vpd' | 'dew-point', TimedValue[]> {
+	const series: Record<'vpd' | 'dew-point', TimedValue[]> = { vpd: [], 'dew-point': [] };
+
+	for (const { timestamp, value } of humidity) {
+		const paired = nearest(temperature, timestamp, window);
+		if (paired === null) continue;
+
+		series.vpd.push({ timestamp, value: vapourPressureDeficit(paired, value) });
+		const dew = dewPoint(paired, value);
+		if (dew !== null) {
+			series['dew-point'].push({ timestamp, value: dew });
+		}
+	}
+
+	return series;
+}
+
+/**
+ * Daily metrics of one day
+ * @param inputs Temperatures and light levels within the day, in time order
+ * @param end Last millisecond of the day
+ * @returns The metrics whose inputs have readings that day
+ */
+export function deriveDailyValues(
+	inputs: { temperature: TimedValue[]; light: TimedValue[] },
+	end: number,
+	settings: DerivedMetricSettings = getDerivedSettings()
+): Partial<Record<'gdd' | 'dli' | 'chill-hours', number>> {
+	const values: Partial<Record<'gdd' | 'dli' | 'chill-hours', number>> = {};
+	const { temperature, light } = inputs;
+
+	if (temperature.length > 0) {
+		const temperatures = temperature.map((reading) => reading.value);
+		values.gdd = growingDegreeDays(
+			Math.min(...temperatures),
+			Math.max(...temperatures),
+			settings.gddBaseTemperature,
+			settings.gddCapTemperature
+		);
+		values['chill-hours'] = chillHours(
+			temperature,
+			end,
+			settings.chillMinTemperature,
+			settings.chillMaxTemperature
+		);
+	}
+
+	if (light.length > 0) {
+		values.dli = dailyLightIntegral(light, end);
+	}
+
+	return values;
+}
+
+/**
+ * Season start (MM-DD) on or before a date, in local time
+ */
+function seasonStartBefore(date: Date, seasonStart: string): number {
+	const [month, day] = seasonStart.split('-').map(Number);
+	const start = new Date(date.getFullYear(), month - 1, day);
+	if (start > date) {
+		start.setFullYear(date.getFullYear() - 1);
+	}
+	return start.getTime();
+}
+
+/**
+ * Running totals of a cumulative metric, restarting at each season start
+ * @param totals Per-bucket totals in time order
+ */
+export function accumulateSeason(totals: TimedValue[], metric: DerivedMetric): TimedValue[] {
+	const settings = getDerivedSettings();
+	const seasonStart = metric === 'gdd' ? settings.gddSeasonStart : settings.chillSeasonStart;
+
+	let season: number | null = null;
+	let sum = 0;
+	return totals.map(({ timestamp, value }) => {
+		const current = seasonStartBefore(new Date(timestamp), seasonStart);
+		if (current !== season) {
+			season = current;
+			sum = 0;
+		}
+		sum += value;
+		return { timestamp, value: sum };
+	});
+}
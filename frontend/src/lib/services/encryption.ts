@@ -0,0 +1,546 @@
+import { writable } from 'svelte/store';
+import { openDatabase, promisifyRequest, transactionDone } from './database';
+
+/**
+ * Optional encryption at rest for local sensor, aggregate, baseline, anomaly and image records
+ * A key is derived from the user's passphrase with PBKDF2 and records are
+ * sealed with AES-GCM. Only the fields the indexes and range filters read stay
+ * in the clear. Keys live in memory only, so every tab unlocks on its own.
+ */
+
+export type EncryptedStore =
+	'sensorReadings' | 'dataAggregates' | 'cropImages' | 'baselines' | 'anomalyIncidents';
+
+const ENCRYPTED_STORES: EncryptedStore[] = [
+	'sensorReadings',
+	'dataAggregates',
+	'cropImages',
+	'baselines',
+	'anomalyIncidents'
+];
+
+// Fields the store indexes and query filters need, kept readable while locked
+const CLEAR_FIELDS: Record<EncryptedStore, string[]> = {
+	sensorReadings: ['id', 'deviceId', 'dataType', 'location', 'timestamp', 'syncState'],
+	dataAggregates: ['id', 'deviceId', 'dataType', 'startTimestamp', 'endTimestamp', 'bucketSize'],
+	cropImages: ['id', 'deviceId', 'timestamp', 'hash'],
+	baselines: ['deviceId', 'dataType'],
+	anomalyIncidents: ['id', 'deviceId', 'dataType', 'detector', 'status', 'firstSeen', 'lastSeen']
+};
+
+const SETTINGS_KEY = 'encryption';
+const PBKDF2_ITERATIONS = 600000;
+const VERIFIER_TEXT = 'yieldsyncx';
+
+// Records re-encrypted per transaction when sealing, rotating or unsealing
+const REENCODE_CHUNK = 50;
+
+interface EncryptedPayload {
+	keyId: string;
+	iv: Uint8Array<ArrayBuffer>;
+	ciphertext: ArrayBuffer;
+}
+
+/**
+ * Derivation parameters of one key, with a sealed known value to check passphrases
+ */
+export interface KeyParams {
+	id: string;
+	salt: Uint8Array<ArrayBuffer>;
+	iterations: number;
+	verifier: EncryptedPayload;
+	createdAt: number;
+}
+
+/**
+ * Key parameters in the meta store; the last key is active, earlier ones
+ * remain only while a rotation is unfinished
+ */
+interface EncryptionSettings {
+	key: typeof SETTINGS_KEY;
+	keys: KeyParams[];
+}
+
+type SealedRecord = Record<string, unknown> & {
+	encrypted: EncryptedPayload;
+	encryptedData?: EncryptedPayload & { type: string };
+};
+
+export interface EncryptionState {
+	enabled: boolean;
+	unlocked: boolean;
+	// A rotation was interrupted and records under older keys remain
+	rotationPending: boolean;
+}
+
+/**
+ * Thrown when encrypted records are read or written while the store is locked
+ */
+export class EncryptionLockedError extends Error {
+	constructor() {
+		super('Encrypted storage is locked; unlock it with your passphrase');
+		this.name = 'EncryptionLockedError';
+	}
+}
+
+export const encryptionState = writable<EncryptionState>({
+	enabled: false,
+	unlocked: false,
+	rotationPending: false
+});
+
+// Unlocked keys by key ID
+const keyring = new Map<string, CryptoKey>();
+
+async function loadSettings(): Promise<EncryptionSettings | null> {
+	const db = await openDatabase();
+	const meta = db.transaction('meta', 'readonly').objectStore('meta');
+	return (await promisifyRequest(meta.get(SETTINGS_KEY))) ?? null;
+}
+
+async function saveSettings(settings: EncryptionSettings | null): Promise<void> {
+	const db = await openDatabase();
+	const transaction = db.transaction('meta', 'readwrite');
+	const meta = transaction.objectStore('meta');
+
+	if (settings) {
+		meta.put(settings);
+	} else {
+		meta.delete(SETTINGS_KEY);
+	}
+	await transactionDone(transaction);
+}
+
+function publishState(settings: EncryptionSettings | null): void {
+	encryptionState.set({
+		enabled: settings !== null,
+		unlocked: settings !== null && keyring.has(settings.keys.at(-1)!.id),
+		rotationPending: (settings?.keys.length ?? 0) > 1
+	});
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number) {
+	const material = await crypto.subtle.importKey(
+		'raw',
+		new TextEncoder().encode(passphrase),
+		'PBKDF2',
+		false,
+		['deriveKey']
+	);
+
+	return crypto.subtle.deriveKey(
+		{ name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+		material,
+		{ name: 'AES-GCM', length: 256 },
+		false,
+		['encrypt', 'decrypt']
+	);
+}
+
+async function seal(keyId: string, plaintext: BufferSource): Promise<EncryptedPayload> {
+	const key = keyring.get(keyId);
+	if (!key) throw new EncryptionLockedError();
+
+	const iv = crypto.getRandomValues(new Uint8Array(12));
+	const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plaintext);
+	return { keyId, iv, ciphertext };
+}
+
+async function open(payload: EncryptedPayload): Promise<ArrayBuffer> {
+	const key = keyring.get(payload.keyId);
+	if (!key) throw new EncryptionLockedError();
+
+	return crypto.subtle.decrypt({ name: 'AES-GCM', iv: payload.iv }, key, payload.ciphertext);
+}
+
+/**
+ * Create the parameters for a new key from a passphrase and unlock it
+ */
+async function createKey(passphrase: string): Promise<KeyParams> {
+	const id = crypto.randomUUID();
+	const salt = crypto.getRandomValues(new Uint8Array(16));
+
+	keyring.set(id, await deriveKey(passphrase, salt, PBKDF2_ITERATIONS));
+	return {
+		id,
+		salt,
+		iterations: PBKDF2_ITERATIONS,
+		verifier: await seal(id, new TextEncoder().encode(VERIFIER_TEXT)),
+		createdAt: Date.now()
+	};
+}
+
+/**
+ * Unlock the key a passphrase opens
+ * @returns Whether the passphrase matched the key
+ */
+async function unlockKey(params: KeyParams, passphrase: string): Promise<boolean> {
+	const key = await deriveKey(passphrase, params.salt, params.iterations);
+
+	try {
+		const text = await crypto.subtle.decrypt(
+			{ name: 'AES-GCM', iv: params.verifier.iv },
+			key,
+			params.verifier.ciphertext
+		);
+		if (new TextDecoder().decode(text) !== VERIFIER_TEXT) return false;
+	} catch {
+		// Wrong passphrase: authentication fails
+		return false;
+	}
+
+	keyring.set(params.id, key);
+	return true;
+}
+
+/**
+ * Seal a record for storage with the active key; a no-op when encryption is off
+ * @param store Store the record is written to
+ * @param record Plain record
+ * @returns The record to store
+ */
+export async function encodeRecord<T extends object>(
+	store: EncryptedStore,
+	record: T
+): Promise<object> {
+	const settings = await loadSettings();
+	if (!settings) return record;
+
+	return sealRecord(store, record as Record<string, unknown>, settings.keys.at(-1)!.id);
+}
+
+export async function encodeRecords<T extends object>(
+	store: EncryptedStore,
+	records: T[]
+): Promise<object[]> {
+	const settings = await loadSettings();
+	if (!settings) return records;
+
+	const keyId = settings.keys.at(-1)!.id;
+	return Promise.all(
+		records.map((record) => sealRecord(store, record as Record<string, unknown>, keyId))
+	);
+}
+
+async function sealRecord(
+	store: EncryptedStore,
+	record: Record<string, unknown>,
+	keyId: string
+): Promise<SealedRecord> {
+	const clear: Record<string, unknown> = {};
+	const secret: Record<string, unknown> = {};
+	for (const [field, value] of Object.entries(record)) {
+		(CLEAR_FIELDS[store].includes(field) ? clear : secret)[field] = value;
+	}
+
+	// Image data is sealed as bytes; JSON would drop the Blob
+	let encryptedData: SealedRecord['encryptedData'];
+	if (secret.data instanceof Blob) {
+		const blob = secret.data;
+		encryptedData = { ...(await seal(keyId, await blob.arrayBuffer())), type: blob.type };
+		delete secret.data;
+	}
+
+	return {
+		...clear,
+		encrypted: await seal(keyId, new TextEncoder().encode(JSON.stringify(secret))),
+		...(encryptedData ? { encryptedData } : {})
+	};
+}
+
+/**
+ * Open a stored record; plain records are returned as they are
+ * @param stored Record as read from the store
+ * @returns The plain record
+ */
+export async function decodeRecord<T>(stored: unknown): Promise<T> {
+	const record = stored as SealedRecord;
+	if (!record?.encrypted) return stored as T;
+
+	const { encrypted, encryptedData, ...clear } = record;
+	const secret = JSON.parse(new TextDecoder().decode(await open(encrypted)));
+
+	if (encryptedData) {
+		secret.data = new Blob([await open(encryptedData)], { type: encryptedData.type });
+	}
+
+	return { ...secret, ...clear } as T;
+}
+
+export async function decodeRecords<T>(stored: unknown[]): Promise<T[]> {
+	return Promise.all(stored.map((record) => decodeRecord<T>(record)));
+}
+
+/**
+ * Bytes of ciphertext a sealed record holds
+ * @returns The size, or null for a plain record
+ */
+export function sealedSize(stored: unknown): number | null {
+	const record = stored as SealedRecord;
+	if (!record?.encrypted) return null;
+
+	return (
+		record.encrypted.ciphertext.byteLength + (record.encryptedData?.ciphertext.byteLength ?? 0)
+	);
+}
+
+/**
+ * Rewrite every record of the encrypted stores
+ * @param transform Maps a stored record to its replacement, or null to leave it
+ */
+async function reencodeStores(
+	transform: (
+		store: EncryptedStore,
+		stored: SealedRecord | Record<string, unknown>
+	) => Promise<object | null>
+): Promise<void> {
+	const db = await openDatabase();
+
+	for (const store of ENCRYPTED_STORES) {
+		const keys = await promisifyRequest(
+			db.transaction(store, 'readonly').objectStore(store).getAllKeys()
+		);
+
+		for (let i = 0; i < keys.length; i += REENCODE_CHUNK) {
+			const chunk = keys.slice(i, i + REENCODE_CHUNK);
+			const source = db.transaction(store, 'readonly').objectStore(store);
+			const stored = await Promise.all(chunk.map((key) => promisifyRequest(source.get(key))));
+
+			// WebCrypto is async, so records are transformed between transactions
+			const replacements = await Promise.all(
+				stored.map((record) => (record ? transform(store, record) : null))
+			);
+
+			const transaction = db.transaction(store, 'readwrite');
+			const target = transaction.objectStore(store);
+			for (const replacement of replacements) {
+				if (replacement) target.put(replacement);
+			}
+			await transactionDone(transaction);
+		}
+	}
+}
+
+/**
+ * Read whether encryption is on and publish the state
+ */
+export async function loadEncryptionState(): Promise<EncryptionState> {
+	const settings = await loadSettings();
+	publishState(settings);
+
+	let state!: EncryptionState;
+	encryptionState.subscribe((value) => (state = value))();
+	return state;
+}
+
+/**
+ * Turn encryption on and seal every existing record
+ * @param passphrase Passphrase the key is derived from
+ */
+export async function enableEncryption(passphrase: string): Promise<void> {
+	if (await loadSettings()) throw new Error('Encryption is already enabled');
+
+	const params = await createKey(passphrase);
+	const settings: EncryptionSettings = { key: SETTINGS_KEY, keys: [params] };
+
+	// New writes are sealed from here on; existing records follow
+	await saveSettings(settings);
+	publishState(settings);
+	await sealPlainRecords();
+}
+
+/**
+ * Seal records still stored in the clear, e.g. after an interrupted enable
+ */
+export async function sealPlainRecords(): Promise<void> {
+	const settings = await loadSettings();
+	if (!settings) return;
+
+	const keyId = settings.keys.at(-1)!.id;
+	await reencodeStores(async (store, stored) =>
+		stored.encrypted ? null : sealRecord(store, stored, keyId)
+	);
+}
+
+/**
+ * Unlock the store with a passphrase
+ * @returns Whether the passphrase opened the active key or a key awaiting rotation
+ */
+export async function unlockEncryption(passphrase: string): Promise<boolean> {
+	const settings = await loadSettings();
+	if (!settings) return true;
+
+	let unlocked = false;
+	for (const params of settings.keys) {
+		if (await unlockKey(params, passphrase)) unlocked = true;
+	}
+
+	publishState(settings);
+	return unlocked;
+}
+
+/**
+ * Forget every key held in memory
+ */
+export async function lockEncryption(): Promise<void> {
+	keyring.clear();
+	publishState(await loadSettings());
+}
+
+/**
+ * Move every record to a key derived from a new passphrase
+ * If interrupted, unlock with both passphrases and call finishKeyRotation
+ * @param currentPassphrase Passphrase of the active key
+ * @param newPassphrase Passphrase for the new key
+ */
+export async function rotateEncryptionKey(
+	currentPassphrase: string,
+	newPassphrase: string
+): Promise<void> {
+	const settings = await loadSettings();
+	if (!settings) throw new Error('Encryption is not enabled');
+	if (!(await unlockKey(settings.keys.at(-1)!, currentPassphrase))) {
+		throw new Error('Current passphrase is incorrect');
+	}
+
+	const params = await createKey(newPassphrase);
+	settings.keys.push(params);
+	await saveSettings(settings);
+	publishState(settings);
+
+	await finishKeyRotation();
+}
+
+/**
+ * Re-seal records under older keys with the active key, then drop the old keys
+ * The old keys must be unlocked
+ */
+export async function finishKeyRotation(): Promise<void> {
+	const settings = await loadSettings();
+	if (!settings) return;
+
+	const active = settings.keys.at(-1)!;
+	await reencodeStores(async (store, stored) => {
+		if (stored.encrypted && (stored as SealedRecord).encrypted.keyId === active.id) return null;
+		return sealRecord(store, await decodeRecord(stored), active.id);
+	});
+
+	for (const params of settings.keys.slice(0, -1)) {
+		keyring.delete(params.id);
+	}
+	settings.keys = [active];
+	await saveSettings(settings);
+	publishState(settings);
+}
+
+/**
+ * Turn encryption off and store every record in the clear again
+ * @param passphrase Passphrase of the active key
+ */
+export async function disableEncryption(passphrase: string): Promise<void> {
+	const settings = await loadSettings();
+	if (!settings) return;
+	if (!(await unlockEncryption(passphrase))) throw new Error('Passphrase is incorrect');
+
+	await reencodeStores(async (_store, stored) => (stored.encrypted ? decodeRecord(stored) : null));
+
+	keyring.clear();
+	await saveSettings(null);
+	publishState(null);
+}
+
+/**
+ * Backup file contents sealed with the active key
+ */
+export interface EncryptedBackup {
+	timestamp: number;
+	version: string;
+	encryption: KeyParams;
+	payload: EncryptedPayload;
+}
+
+// Bytes converted per call, so large backups stay well within the argument limit
+const BASE64_CHUNK = 0x8000;
+
+function toBase64(bytes: ArrayBuffer | Uint8Array): string {
+	const view = new Uint8Array(bytes);
+	let binary = '';
+	for (let i = 0; i < view.length; i += BASE64_CHUNK) {
+		binary += String.fromCharCode(...view.subarray(i, i + BASE64_CHUNK));
+	}
+	return btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array<ArrayBuffer> {
+	const binary = atob(text);
+	const bytes = new Uint8Array(binary.length);
+	for (let i = 0; i < binary.length; i++) {
+		bytes[i] = binary.charCodeAt(i);
+	}
+	return bytes;
+}
+
+/**
+ * Seal a backup when encryption is on; the key parameters travel with it so
+ * the passphrase restores it on another device
+ * @param backup Backup JSON
+ * @returns JSON to save, unchanged when encryption is off
+ */
+export async function encryptBackup(backup: string): Promise<string> {
+	const settings = await loadSettings();
+	if (!settings) return backup;
+
+	const params = settings.keys.at(-1)!;
+	const payload = await seal(params.id, new TextEncoder().encode(backup));
+	const { timestamp, version } = JSON.parse(backup);
+
+	return JSON.stringify({
+		timestamp,
+		version,
+		encrypted: true,
+		encryption: {
+			...params,
+			salt: toBase64(params.salt),
+			verifier: {
+				...params.verifier,
+				iv: toBase64(params.verifier.iv),
+				ciphertext: toBase64(params.verifier.ciphertext)
+			}
+		},
+		payload: { ...payload, iv: toBase64(payload.iv), ciphertext: toBase64(payload.ciphertext) }
+	});
+}
+
+/**
+ * Open a backup sealed by encryptBackup
+ * @param backup Backup JSON, sealed or plain
+ * @param passphrase Needed unless the backup's key is already unlocked here
+ * @returns Plain backup JSON
+ */
+export async function decryptBackup(backup: string, passphrase?: string): Promise<string> {
+	const wrapper = JSON.parse(backup);
+	if (!wrapper.encrypted) return backup;
+
+	const decode = (payload: {
+		keyId: string;
+		iv: string;
+		ciphertext: string;
+	}): EncryptedPayload => ({
+		keyId: payload.keyId,
+		iv: fromBase64(payload.iv),
+		ciphertext: fromBase64(payload.ciphertext).buffer as ArrayBuffer
+	});
+	const params: KeyParams = {
+		...wrapper.encryption,
+		salt: fromBase64(wrapper.encryption.salt),
+		verifier: decode(wrapper.encryption.verifier)
+	};
+
+	if (!keyring.has(params.id)) {
+		if (!passphrase || !(await unlockKey(params, passphrase))) {
+			throw new EncryptionLockedError();
+		}
+	}
+
+	return new TextDecoder().decode(await open(decode(wrapper.payload)));
+}
@@ -1,3 +1,5 @@
+import { trigger } from '$lib/stores/toastStore.svelte';
+
 export class ErrorService {
     private static readonly errorMessages: Record<string, string> = {
       'NETWORK_MISMATCH': 'Please switch to Moonbase Alpha network in MetaMask',
@@ -7,38 +9,87 @@ export class ErrorService {
       'CONNECTION_LOST': 'Connection to blockchain lost. Please refresh',
       'CERTIFICATION_FAILED': 'Unable to certify record. Check your permissions',
       'BATCH_CREATION_FAILED': 'Failed to create data batch',
-      'UNAUTHORIZED': 'You do not have permission to perform this action'
+      'UNAUTHORIZED': 'You do not have permission to perform this action',
+      'TRANSACTION_REJECTED': 'Transaction was rejected by user',
+      'NONCE_EXPIRED': 'Transaction error. Please retry',
+      'UNKNOWN_ERROR': 'An unexpected error occurred. Please try again'
     };
-    
+
+    // Transient failures that may succeed when the same transaction is sent again
+    private static readonly retryableCodes = ['RATE_LIMIT_EXCEEDED', 'CONNECTION_LOST', 'NONCE_EXPIRED', 'UNKNOWN_ERROR'];
+
+    /**
+     * Map an ethers, wallet or contract error onto one of the known error codes
+     */
+    static classifyError(error: unknown): string {
+      const err = error as { code?: string | number; shortMessage?: string; message?: string } | null;
+
+      if (typeof err?.code === 'string' && this.errorMessages[err.code]) {
+        return err.code;
+      }
+
+      switch (err?.code) {
+        case 'ACTION_REJECTED':
+        case 4001:
+          return 'TRANSACTION_REJECTED';
+        case 'NETWORK_ERROR':
+        case 'TIMEOUT':
+        case 'SERVER_ERROR':
+          return 'CONNECTION_LOST';
+        case 'REPLACEMENT_UNDERPRICED':
+          return 'NONCE_EXPIRED';
+        case -32005:
+          return 'RATE_LIMIT_EXCEEDED';
+      }
+
+      const message = String(err?.shortMessage ?? err?.message ?? '').toLowerCase();
+
+      // Parse common MetaMask and contract revert patterns
+      if (message.includes('user rejected')) {
+        return 'TRANSACTION_REJECTED';
+      }
+      if (message.includes('nonce too low')) {
+        return 'NONCE_EXPIRED';
+      }
+      if (message.includes('insufficient funds')) {
+        return 'INSUFFICIENT_FUNDS';
+      }
+      if (message.includes('rate limit') || message.includes('too many requests')) {
+        return 'RATE_LIMIT_EXCEEDED';
+      }
+      if (message.includes('must have device or admin role') || message.includes('access control')) {
+        return 'UNAUTHORIZED';
+      }
+      if (err?.code === 'CALL_EXCEPTION' || message.includes('execution reverted')) {
+        return 'INVALID_DATA';
+      }
+
+      return 'UNKNOWN_ERROR';
+    }
+
+    /**
+     * Whether a failure with this code is worth retrying
+     */
+    static isRetryable(code: string): boolean {
+      return this.retryableCodes.includes(code);
+    }
+
+    static getMessageForCode(code: string): string {
+      return this.errorMessages[code] ?? this.errorMessages['UNKNOWN_ERROR'];
+    }
+
     static getUserFriendlyMessage(error: any): string {
-      if (error.code && this.errorMessages[error.code]) {
-        return this.errorMessages[error.code];
-      }
-      
-      if (error.message) {
-        // Parse common MetaMask error patterns
-        if (error.message.includes('user rejected')) {
-          return 'Transaction was rejected by user';
-        }
-        if (error.message.includes('nonce too low')) {
-          return 'Transaction error. Please retry';
-        }
-        if (error.message.includes('insufficient funds')) {
-          return 'Insufficient balance to complete transaction';
-        }
-      }
-      
-      return 'An unexpected error occurred. Please try again';
+      return this.getMessageForCode(this.classifyError(error));
     }
-    
+
     static displayError(error: any) {
       const message = this.getUserFriendlyMessage(error);
       trigger({
         message,
         background: 'preset-filled-error'
       });
-      
+
       // Log detailed error for debugging
       console.error('Detailed error:', error);
     }
-  }
\ No newline at end of file
+  }
@@ -0,0 +1,222 @@
+import type { DataGap, SensorReading, StreamGaps } from '$lib/types';
+import { IndexedDBDataService } from './dataService';
+import { openDatabase, promisifyRequest, transactionDone } from './database';
+
+/**
+ * Gap detection for device streams
+ * Each device and data type is checked against its expected sampling interval,
+ * the median time between its recent readings. Intervals much longer than that
+ * are stored as gaps, and bucket coverage is measured against it.
+ */
+
+// An interval counts as a gap once it is this many times the expected one
+export const GAP_TOLERANCE = 1.5;
+
+// Recent readings the expected interval is estimated from
+const INTERVAL_SAMPLE = 50;
+
+// Intervals needed before a stream's expected interval is trusted
+const MIN_INTERVALS = 5;
+
+/**
+ * Expected sampling interval of timestamps in time order
+ * @returns The median interval, or null with too few readings
+ */
+export function estimateInterval(timestamps: number[]): number | null {
+	const intervals = timestamps
+		.slice(1)
+		.map((timestamp, i) => timestamp - timestamps[i])
+		.filter((interval) => interval > 0)
+		.sort((a, b) => a - b);
+	if (intervals.length < MIN_INTERVALS) return null;
+
+	const middle = intervals.length >> 1;
+	return intervals.length % 2 ? intervals[middle] : (intervals[middle - 1] + intervals[middle]) / 2;
+}
+
+/**
+ * Gaps between timestamps in time order
+ * @param interval Expected sampling interval
+ */
+export function findGaps(timestamps: number[], interval: number): DataGap[] {
+	const gaps: DataGap[] = [];
+
+	for (let i = 1; i < timestamps.length; i++) {
+		const elapsed = timestamps[i] - timestamps[i - 1];
+		if (elapsed > GAP_TOLERANCE * interval) {
+			gaps.push({
+				start: timestamps[i - 1],
+				end: timestamps[i],
+				missingCount: Math.round(elapsed / interval) - 1
+			});
+		}
+	}
+
+	return gaps;
+}
+
+/**
+ * Readings expected over a window, and the share that arrived
+ * Only the part of the window that has already elapsed is expected
+ * @param count Readings in the window
+ * @param start First millisecond of the window
+ * @param end Last millisecond of the window
+ * @param interval Expected sampling interval
+ */
+export function windowCoverage(
+	count: number,
+	start: number,
+	end: number,
+	interval: number,
+	now: number = Date.now()
+): { expectedCount: number; coverage: number } {
+	const elapsed = Math.min(end + 1, now) - start;
+	const expectedCount = Math.max(1, Math.round(elapsed / interval));
+	return { expectedCount, coverage: Math.min(1, count / expectedCount) };
+}
+
+/**
+ * Stored gaps of one stream
+ */
+export async function getStreamGaps(
+	deviceId: string,
+	dataType: string
+): Promise<StreamGaps | null> {
+	const db = await openDatabase();
+	const store = db.transaction('streamGaps', 'readonly').objectStore('streamGaps');
+	return (await promisifyRequest(store.get([deviceId, dataType]))) ?? null;
+}
+
+/**
+ * Stored gaps of every stream of a device
+ */
+export async function getDeviceGaps(deviceId: string): Promise<StreamGaps[]> {
+	const db = await openDatabase();
+	const store = db.transaction('streamGaps', 'readonly').objectStore('streamGaps');
+	return promisifyRequest(store.index('deviceId').getAll(deviceId));
+}
+
+async function saveStreamGaps(record: StreamGaps): Promise<void> {
+	const db = await openDatabase();
+	const transaction = db.transaction('streamGaps', 'readwrite');
+	transaction.objectStore('streamGaps').put(record);
+	await transactionDone(transaction);
+}
+
+/**
+ * Update the gaps of the streams new readings belong to
+ * Only the span from the stored reading before each stream's batch to the one
+ * after it is rescanned, so late readings close the gaps they fall in
+ * @param readings Newly stored readings
+ * @returns Promise with the updated streams
+ */
+export async function updateStreamGaps(readings: SensorReading[]): Promise<StreamGaps[]> {
+	const batches = new Map<string, SensorReading[]>();
+	for (const reading of readings) {
+		const key = JSON.stringify([reading.deviceId, reading.dataType]);
+		if (!batches.has(key)) {
+			batches.set(key, []);
+		}
+		batches.get(key)!.push(reading);
+	}
+
+	const updated: StreamGaps[] = [];
+
+	for (const batch of batches.values()) {
+		const { deviceId, dataType } = batch[0];
+		const first = Math.min(...batch.map((reading) => reading.timestamp));
+		const last = Math.max(...batch.map((reading) => reading.timestamp));
+
+		// Re-estimated each time, so a device that changes its rate is followed
+		const recent = await IndexedDBDataService.getSensorData({
+			deviceId,
+			dataType,
+			order: 'desc',
+			limit: INTERVAL_SAMPLE
+		});
+		const expectedInterval = estimateInterval(recent.map((reading) => reading.timestamp).reverse());
+		if (expectedInterval === null) continue;
+
+		const [before] = await IndexedDBDataService.getSensorData({
+			deviceId,
+			dataType,
+			toTimestamp: first - 1,
+			order: 'desc',
+			limit: 1
+		});
+		const [after] = await IndexedDBDataService.getSensorData({
+			deviceId,
+			dataType,
+			fromTimestamp: last + 1,
+			limit: 1
+		});
+		const from = before?.timestamp ?? first;
+		const to = after?.timestamp ?? last;
+
+		const span = await IndexedDBDataService.getSensorData({
+			deviceId,
+			dataType,
+			fromTimestamp: from,
+			toTimestamp: to
+		});
+		const rescanned = findGaps(
+			span.map((reading) => reading.timestamp).sort((a, b) => a - b),
+			expectedInterval
+		);
+
+		const stored = await getStreamGaps(deviceId, dataType);
+		const kept = (stored?.gaps ?? []).filter((gap) => gap.end <= from || gap.start >= to);
+
+		const record: StreamGaps = {
+			deviceId,
+			dataType,
+			expectedInterval,
+			gaps: [...kept, ...rescanned].sort((a, b) => a.start - b.start),
+			updatedAt: Date.now()
+		};
+		await saveStreamGaps(record);
+		updated.push(record);
+	}
+
+	return updated;
+}
+
+/**
+ * How charts fill gaps: not at all, along a straight line, or holding the last value
+ */
+export type GapFill = 'none' | 'linear' | 'last';
+
+/**
+ * Points filling the gaps of a series at the expected interval
+ * @param points Series in time order
+ * @param interval Expected sampling interval
+ * @param method Interpolation method
+ * @returns Only the filled points, in time order
+ */
+export function interpolateGaps(
+	points: Array<{ timestamp: number; value: number }>,
+	interval: number,
+	method: GapFill
+): Array<{ timestamp: number; value: number }> {
+	if (method === 'none') return [];
+
+	const filled: Array<{ timestamp: number; value: number }> = [];
+
+	for (let i = 1; i < points.length; i++) {
+		const before = points[i - 1];
+		const after = points[i];
+		const elapsed = after.timestamp - before.timestamp;
+		if (elapsed <= GAP_TOLERANCE * interval) continue;
+
+		const missing = Math.round(elapsed / interval) - 1;
+		for (let step = 1; step <= missing; step++) {
+			const t = step / (missing + 1);
+			filled.push({
+				timestamp: before.timestamp + t * elapsed,
+				value: method === 'linear' ? before.value + t * (after.value - before.value) : before.value
+			});
+		}
+	}
+
+	return filled;
+}
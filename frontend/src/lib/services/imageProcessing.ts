@@ -1,4 +1,6 @@
 import type { CropImage } from '$lib/types';
+import { IndexedDBDataService } from './dataService';
+import { StorageService } from './storageService';
 
 /**
  * Image processing module for agricultural imagery
@@ -203,45 +205,15 @@ export function blobToBase64(blob: Blob): Promise<string> {
  * @returns Promise with storage result
  */
 export async function storeImageOffline(cropImage: CropImage): Promise<boolean> {
-  return new Promise((resolve, reject) => {
-    // Open or create IndexedDB database
-    const request = indexedDB.open('YieldSyncxImageDB', 1);
-    
-    request.onupgradeneeded = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
-      
-      // Create object store for images if it doesn't exist
-      if (!db.objectStoreNames.contains('cropImages')) {
-        const store = db.createObjectStore('cropImages', { keyPath: 'id', autoIncrement: true });
-        store.createIndex('deviceId', 'deviceId', { unique: false });
-        store.createIndex('timestamp', 'timestamp', { unique: false });
-        store.createIndex('hash', 'hash', { unique: false });
-      }
-    };
+  try {
+    return await IndexedDBDataService.saveImage(cropImage);
+  } catch (error) {
+    if ((error as DOMException)?.name !== 'QuotaExceededError') {
+      throw error;
+    }
     
-    request.onsuccess = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
-      const transaction = db.transaction('cropImages', 'readwrite');
-      const store = transaction.objectStore('cropImages');
-      
-      // Store the image
-      const storeRequest = store.add(cropImage);
-      
-      storeRequest.onsuccess = () => {
-        resolve(true);
-      };
-      
-      storeRequest.onerror = () => {
-        reject(new Error('Failed to store image in IndexedDB'));
-      };
-      
-      transaction.oncomplete = () => {
-        db.close();
-      };
-    };
-    
-    request.onerror = () => {
-      reject(new Error('Failed to open IndexedDB'));
-    };
-  });
+    // Out of space: free some and try once more
+    await StorageService.evictIfNeeded(true);
+    return IndexedDBDataService.saveImage(cropImage);
+  }
 }
\ No newline at end of file
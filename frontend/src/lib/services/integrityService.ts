@@ -1,12 +1,10 @@
-import { ethers } from 'ethers';
 import type { SensorData } from '$lib/types';
+import { MerkleTreeUtils } from '$lib/utils/merkleTreeUtils';
+import { hashRecord } from './merkleTree';
 
 export class IntegrityChecker {
   private static async calculateDataHash(record: SensorData): Promise<string> {
-    return ethers.solidityPackedKeccak256(
-      ['string', 'uint256', 'string', 'string', 'string'],
-      [record.deviceId, record.timestamp, record.data, record.dataType, record.location]
-    );
+    return hashRecord(record);
   }
 
   static async verifyDataIntegrity(
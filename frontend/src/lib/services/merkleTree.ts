@@ -1,24 +1,49 @@
 import { ethers } from 'ethers';
 import type { SensorData } from '$lib/types';
 
+/**
+ * Canonical leaf encoding, matching IoTData.storeData:
+ * keccak256(abi.encodePacked(deviceId, timestamp, data, dataType, location))
+ */
+export const RECORD_LEAF_TYPES = ['string', 'uint256', 'string', 'string', 'string'];
+
+/**
+ * Hash an on-chain record into its Merkle leaf.
+ * The timestamp is the block timestamp in seconds, so leaves can only be
+ * built from records read back from the contract, never from local readings.
+ */
+export function hashRecord(record: SensorData): string {
+  return ethers.solidityPackedKeccak256(
+    RECORD_LEAF_TYPES,
+    [record.deviceId, record.timestamp, record.data, record.dataType, record.location]
+  );
+}
+
+/**
+ * Hash two siblings in sorted order, like OpenZeppelin's MerkleProof.
+ */
+export function hashPair(a: string, b: string): string {
+  return ethers.solidityPackedKeccak256(
+    ['bytes32','bytes32'],
+    a < b ? [a, b] : [b, a]
+  );
+}
+
 /**
  * Build Merkle layers from leaf hashes.
+ * A node without a sibling moves up unchanged, so its proof skips that level.
  */
-function buildLayers(leaves: string[]): string[][] {
+export function buildLayers(leaves: string[]): string[][] {
+  if (!leaves.length) {
+    throw new Error('No leaves for Merkle tree');
+  }
+
   const layers: string[][] = [leaves];
   while (layers.at(-1)!.length > 1) {
     const prev = layers.at(-1)!;
     const next: string[] = [];
     for (let i = 0; i < prev.length; i += 2) {
-      const left  = prev[i];
-      const right = prev[i + 1] ?? left;
-      // Pack and hash siblings
-      next.push(
-        ethers.solidityPackedKeccak256(
-          ['bytes32','bytes32'],
-          [left, right].sort() as [string,string]
-        )
-      );
+      next.push(i + 1 < prev.length ? hashPair(prev[i], prev[i + 1]) : prev[i]);
     }
     layers.push(next);
   }
@@ -26,28 +51,21 @@ function buildLayers(leaves: string[]): string[][] {
 }
 
 /**
- * Generate Merkle tree root & proofs.
+ * Generate Merkle tree root & proofs for records in on-chain index order.
  */
 export function generateMerkleTree(records: SensorData[]) {
   if (!records.length) {
     throw new Error('No records for Merkle tree');
   }
 
-  // Leaf = packed hash of each record
-  const leaves = records.map(r =>
-    ethers.solidityPackedKeccak256(
-      ['string','uint256','string','string','string'],
-      [r.deviceId, r.timestamp, r.data, r.dataType, r.location]
-    )
-  );
-
+  const leaves = records.map(hashRecord);
   const layers = buildLayers(leaves);
   const root   = layers.at(-1)![0];
 
   // Proof generation
   const proofs: Record<number,string[]> = {};
-  leaves.forEach((leaf, idx) => {
-    let proof: string[] = [];
+  leaves.forEach((_, idx) => {
+    const proof: string[] = [];
     let index = idx;
     for (let i = 0; i < layers.length - 1; i++) {
       const layer = layers[i];
@@ -60,5 +78,12 @@ export function generateMerkleTree(records: SensorData[]) {
     proofs[idx] = proof;
   });
 
-  return { merkleRoot: root, proofs };
+  return { merkleRoot: root, leaves, proofs };
+}
+
+/**
+ * Check a leaf against a root the same way IoTData.verifyRecord does.
+ */
+export function verifyProof(leaf: string, proof: string[], root: string): boolean {
+  return proof.reduce(hashPair, leaf) === root;
 }
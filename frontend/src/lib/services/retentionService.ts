@@ -0,0 +1,183 @@
+import type {
+	LocalDataAggregate,
+	QueuedSensorReading,
+	RetentionPolicy,
+	RetentionReport
+} from '$lib/types';
+import { IndexedDBDataService } from './dataService';
+import { openDatabase, transactionDone } from './database';
+import { rollupReadings, ROLLUP_PERIODS } from './dataAggregation';
+import { encodeRecords } from './encryption';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Approximate stored size of records, from their serialized form
+ */
+function serializedSize(records: object[]): number {
+	return new Blob([JSON.stringify(records)]).size;
+}
+
+/**
+ * Retention of local sensor history
+ * Confirmed readings older than the retention period are compacted into
+ * rollups that keep a provable Merkle root; unsynced readings are never touched
+ */
+export class RetentionService {
+	private static readonly POLICY_KEY = 'retentionPolicy';
+	private static readonly REPORT_KEY = 'retentionLastRun';
+	private static readonly LOCK_NAME = 'yieldsyncx-retention';
+
+	// How often the schedule checks whether a daily run is due
+	private static readonly CHECK_INTERVAL = 60 * 60 * 1000;
+
+	static readonly DEFAULT_POLICY: RetentionPolicy = {
+		enabled: false,
+		retainDays: 30,
+		resolution: 'hour'
+	};
+
+	static getPolicy(): RetentionPolicy {
+		if (typeof localStorage === 'undefined') return this.DEFAULT_POLICY;
+
+		try {
+			const stored = JSON.parse(localStorage.getItem(this.POLICY_KEY) ?? 'null');
+			return { ...this.DEFAULT_POLICY, ...stored };
+		} catch {
+			return this.DEFAULT_POLICY;
+		}
+	}
+
+	static setPolicy(policy: RetentionPolicy): void {
+		localStorage.setItem(
+			this.POLICY_KEY,
+			JSON.stringify({
+				...policy,
+				retainDays: Math.max(1, Math.floor(policy.retainDays) || this.DEFAULT_POLICY.retainDays)
+			})
+		);
+	}
+
+	static getLastReport(): RetentionReport | null {
+		if (typeof localStorage === 'undefined') return null;
+
+		try {
+			return JSON.parse(localStorage.getItem(this.REPORT_KEY) ?? 'null');
+		} catch {
+			return null;
+		}
+	}
+
+	/**
+	 * Compact confirmed readings older than the retention period, one rollup
+	 * period at a time. Only whole periods before the cutoff are compacted; a
+	 * reading confirmed after its period was compacted gets a rollup of its own.
+	 * @param policy Retention policy, the saved one by default
+	 * @returns What was compacted and roughly how much space it freed
+	 */
+	static async compact(policy: RetentionPolicy = this.getPolicy()): Promise<RetentionReport> {
+		const period = ROLLUP_PERIODS[policy.resolution];
+		const cutoff = Math.floor((Date.now() - policy.retainDays * DAY) / period) * period;
+		const report: RetentionReport = {
+			runAt: Date.now(),
+			compacted: 0,
+			rollups: 0,
+			skipped: 0,
+			bytesFreed: 0
+		};
+
+		let from: number | undefined;
+		for (;;) {
+			// Oldest confirmed reading still due for compaction
+			const {
+				items: [oldest]
+			} = await IndexedDBDataService.querySensorData({
+				syncState: 'confirmed',
+				fromTimestamp: from,
+				toTimestamp: cutoff - 1,
+				limit: 1
+			});
+			if (!oldest) break;
+
+			const start = Math.floor(oldest.timestamp / period) * period;
+			const { items: readings } = await IndexedDBDataService.querySensorData({
+				syncState: 'confirmed',
+				fromTimestamp: start,
+				toTimestamp: start + period - 1
+			});
+
+			// Readings confirmed before leaves were stored can't be rolled up provably
+			const provable = readings.filter((reading) => reading.recordId !== undefined && reading.leaf);
+			report.skipped += readings.length - provable.length;
+
+			if (provable.length > 0) {
+				const rollups = rollupReadings(provable, policy.resolution);
+				await this.replaceWithRollups(provable, rollups);
+
+				report.compacted += provable.length;
+				report.rollups += rollups.length;
+				report.bytesFreed += serializedSize(provable) - serializedSize(rollups);
+			}
+
+			from = start + period;
+		}
+
+		localStorage.setItem(this.REPORT_KEY, JSON.stringify(report));
+		return report;
+	}
+
+	/**
+	 * Compact now, unless another tab is already compacting
+	 * @returns The run's report, or null if another tab holds the lock
+	 */
+	static async run(policy: RetentionPolicy = this.getPolicy()): Promise<RetentionReport | null> {
+		if (typeof navigator === 'undefined' || !('locks' in navigator)) {
+			return this.compact(policy);
+		}
+
+		return navigator.locks.request(this.LOCK_NAME, { ifAvailable: true }, async (lock) =>
+			lock ? this.compact(policy) : null
+		);
+	}
+
+	/**
+	 * Run the saved policy once a day while the app is open
+	 * @returns Function to stop the schedule
+	 */
+	static schedule(): () => void {
+		const check = () => {
+			const policy = this.getPolicy();
+			const last = this.getLastReport();
+
+			if (policy.enabled && (!last || Date.now() - last.runAt >= DAY)) {
+				this.run(policy).catch((error) => console.error('Retention run failed:', error));
+			}
+		};
+
+		check();
+		const interval = window.setInterval(check, this.CHECK_INTERVAL);
+		return () => window.clearInterval(interval);
+	}
+
+	// Swap raw readings for their rollups in one transaction
+	private static async replaceWithRollups(
+		readings: QueuedSensorReading[],
+		rollups: LocalDataAggregate[]
+	): Promise<void> {
+		const sealed = await encodeRecords('dataAggregates', rollups);
+		const db = await openDatabase();
+		const transaction = db.transaction(['sensorReadings', 'dataAggregates'], 'readwrite');
+
+		const readingsStore = transaction.objectStore('sensorReadings');
+		for (const reading of readings) {
+			readingsStore.delete(reading.id);
+		}
+
+		const aggregatesStore = transaction.objectStore('dataAggregates');
+		for (const rollup of sealed) {
+			aggregatesStore.add(rollup);
+		}
+
+		await transactionDone(transaction);
+	}
+}
@@ -0,0 +1,403 @@
+import type {
+	AnomalyReport,
+	DeviceHealth,
+	HealthCheck,
+	QueuedSensorReading,
+	SensorReading
+} from '$lib/types';
+import { buildDetail } from './anomalyDetection';
+import { expandChannels, primaryValue } from './channels';
+import { IndexedDBDataService } from './dataService';
+import { PAIRING_WINDOW, nearest, type TimedValue } from './derivedMetrics';
+
+/**
+ * Sensor health diagnostics
+ * Checks a device's latest readings for hardware and firmware trouble rather
+ * than conditions in the field: stuck values, drift away from the devices
+ * next to it, a weak or draining battery, a fading signal, a clock that is
+ * off, and readings sent twice. Findings lower the device's health score.
+ */
+
+const HOUR = 60 * 60 * 1000;
+
+// Latest readings of a device the diagnostics look at
+const HEALTH_SAMPLE = 500;
+
+// Span before a device's latest reading its neighbours are compared over, and
+// the most of their readings read for it
+const NEIGHBOUR_SPAN = 24 * HOUR;
+const NEIGHBOUR_SAMPLE = 5000;
+
+// Shortest time between two health checks of a device while readings come in
+const CHECK_INTERVAL = 15 * 60 * 1000;
+
+// When each device was last checked on ingest
+const lastChecked: Record<string, number> = {};
+
+// Identical values in a row that count as a stuck sensor
+const STUCK_COUNT = 12;
+
+// Streams that can hold one value for long without anything being wrong
+const STEADY_TYPES = ['battery', 'signal', 'rainfall'];
+
+// Neighbour drift: paired readings needed, and how far the latest quarter of
+// the offsets must move from the earlier ones, in their standard deviations
+const DRIFT_PAIRS = 12;
+const DRIFT_SIGMA = 4;
+// Smallest shift that counts, relative to the neighbours' mean
+const MIN_DRIFT = 0.05;
+
+// Battery levels in percent, and the fastest normal drain in percent per hour
+const BATTERY_LOW = 20;
+const BATTERY_CRITICAL = 10;
+const BATTERY_DRAIN = 2;
+
+// Fall of the signal strength between the two halves of the sample, in percentage points
+const SIGNAL_DROP = 20;
+
+// How far ahead of its arrival a timestamp may be, and how far behind
+const CLOCK_TOLERANCE = 5 * 60 * 1000;
+const MAX_CLOCK_LAG = 7 * 24 * HOUR;
+
+// Points a finding takes off the health score
+const PENALTIES: Record<AnomalyReport['severity'], number> = { error: 40, warning: 20, info: 5 };
+
+const SEVERITY_RANK: Record<AnomalyReport['severity'], number> = { info: 0, warning: 1, error: 2 };
+
+interface HealthFinding {
+	type: string;
+	threshold: number;
+	actual: number;
+	severity: AnomalyReport['severity'];
+}
+
+function mean(values: number[]): number {
+	return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/**
+ * Least-squares slope of a series, in value units per hour
+ */
+function slopePerHour(series: TimedValue[]): number {
+	const t0 = series[0].timestamp;
+	const xs = series.map(({ timestamp }) => (timestamp - t0) / HOUR);
+	const ys = series.map(({ value }) => value);
+	const meanX = mean(xs);
+	const meanY = mean(ys);
+
+	let covariance = 0;
+	let varianceX = 0;
+	for (let i = 0; i < xs.length; i++) {
+		covariance += (xs[i] - meanX) * (ys[i] - meanY);
+		varianceX += (xs[i] - meanX) ** 2;
+	}
+	return varianceX ? covariance / varianceX : 0;
+}
+
+function readingValue(reading: SensorReading): number | null {
+	try {
+		const payload = typeof reading.data === 'string' ? JSON.parse(reading.data) : reading.data;
+		return payload && typeof payload === 'object' ? primaryValue(reading.dataType, payload) : null;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Values of each data type and channel, in time order
+ * Readings sent twice count once, so duplicates don't pass for a stuck sensor
+ */
+function seriesByType(readings: SensorReading[]): Record<string, TimedValue[]> {
+	const series: Record<string, TimedValue[]> = {};
+	for (const reading of expandChannels(readings)) {
+		const value = readingValue(reading);
+		if (value === null) continue;
+		(series[reading.dataType] ??= []).push({ timestamp: reading.timestamp, value });
+	}
+	for (const [dataType, values] of Object.entries(series)) {
+		values.sort((a, b) => a.timestamp - b.timestamp);
+		series[dataType] = values.filter(
+			({ timestamp }, i) => i === 0 || timestamp !== values[i - 1].timestamp
+		);
+	}
+	return series;
+}
+
+function checkStuck(series: TimedValue[]): HealthFinding | null {
+	if (series.length < STUCK_COUNT) return null;
+
+	const latest = series.slice(-STUCK_COUNT);
+	if (latest.some(({ value }) => value !== latest[0].value)) return null;
+
+	return {
+		type: 'stuck_value',
+		threshold: STUCK_COUNT,
+		actual: latest[0].value,
+		severity: 'warning'
+	};
+}
+
+/**
+ * Shift of the device's offset from its neighbours over the latest readings
+ * @param neighbours Values of the same data type from the other devices, in time order
+ */
+function checkDrift(series: TimedValue[], neighbours: TimedValue[]): HealthFinding | null {
+	const offsets = series.flatMap(({ timestamp, value }) => {
+		const paired = nearest(neighbours, timestamp, PAIRING_WINDOW);
+		return paired === null ? [] : [{ offset: value - paired, neighbour: paired }];
+	});
+	if (offsets.length < DRIFT_PAIRS) return null;
+
+	const split = offsets.length - Math.max(3, Math.floor(offsets.length / 4));
+	const earlier = offsets.slice(0, split).map(({ offset }) => offset);
+	const recent = offsets.slice(split).map(({ offset }) => offset);
+
+	const earlierMean = mean(earlier);
+	const deviation = Math.sqrt(
+		earlier.reduce((sum, offset) => sum + (offset - earlierMean) ** 2, 0) / (earlier.length - 1)
+	);
+	const level = Math.abs(mean(offsets.map(({ neighbour }) => neighbour)));
+	const limit = Math.max(DRIFT_SIGMA * deviation, MIN_DRIFT * Math.max(1, level));
+
+	const shift = mean(recent) - earlierMean;
+	if (Math.abs(shift) <= limit) return null;
+
+	return { type: 'neighbour_drift', threshold: limit, actual: shift, severity: 'warning' };
+}
+
+function checkBattery(series: TimedValue[]): HealthFinding[] {
+	const findings: HealthFinding[] = [];
+	const latest = series[series.length - 1].value;
+
+	if (latest < BATTERY_LOW) {
+		findings.push({
+			type: 'battery_low',
+			threshold: BATTERY_LOW,
+			actual: latest,
+			severity: latest < BATTERY_CRITICAL ? 'error' : 'warning'
+		});
+	}
+
+	// Charging shows up as a rise, so only the drain is checked
+	const span = series[series.length - 1].timestamp - series[0].timestamp;
+	if (series.length >= 3 && span >= HOUR) {
+		const drain = -slopePerHour(series);
+		if (drain > BATTERY_DRAIN) {
+			findings.push({
+				type: 'battery_drain',
+				threshold: BATTERY_DRAIN,
+				actual: drain,
+				severity: 'warning'
+			});
+		}
+	}
+
+	return findings;
+}
+
+function checkSignal(series: TimedValue[]): HealthFinding | null {
+	if (series.length < 6) return null;
+
+	const half = Math.floor(series.length / 2);
+	const drop =
+		mean(series.slice(0, half).map(({ value }) => value)) -
+		mean(series.slice(half).map(({ value }) => value));
+	if (drop < SIGNAL_DROP || slopePerHour(series) >= 0) return null;
+
+	return { type: 'signal_decline', threshold: SIGNAL_DROP, actual: drop, severity: 'warning' };
+}
+
+/**
+ * Run every diagnostic on a device's readings
+ * @param readings The device's latest readings; stored ones are checked against
+ *   the time they were queued, others against the current time
+ * @param neighbours Readings of other devices at the same location over the same span
+ * @param now Current time
+ * @returns A report per diagnostic that found a problem
+ */
+export function diagnoseDevice(
+	readings: SensorReading[],
+	neighbours: SensorReading[] = [],
+	now: number = Date.now()
+): AnomalyReport[] {
+	if (readings.length === 0) return [];
+
+	const sorted = [...readings].sort((a, b) => a.timestamp - b.timestamp);
+	const latest = sorted[sorted.length - 1];
+	const series = seriesByType(sorted);
+	const neighbourSeries = seriesByType(neighbours);
+	const reports: AnomalyReport[] = [];
+
+	const report = (
+		detector: HealthCheck,
+		dataType: string,
+		timestamp: number,
+		value: number,
+		findings: HealthFinding[]
+	) => {
+		if (findings.length === 0) return;
+
+		reports.push({
+			deviceId: latest.deviceId,
+			dataType,
+			timestamp,
+			location: latest.location,
+			value,
+			anomalies: findings.map((finding) =>
+				buildDetail(dataType, finding.type, finding.threshold, finding.actual)
+			),
+			severity: findings.reduce<AnomalyReport['severity']>(
+				(worst, finding) =>
+					SEVERITY_RANK[finding.severity] > SEVERITY_RANK[worst] ? finding.severity : worst,
+				'info'
+			),
+			detector
+		});
+	};
+
+	for (const [dataType, values] of Object.entries(series)) {
+		const last = values[values.length - 1];
+
+		if (!STEADY_TYPES.includes(dataType)) {
+			const stuck = checkStuck(values);
+			report('stuck-value', dataType, last.timestamp, last.value, stuck ? [stuck] : []);
+
+			const drift = neighbourSeries[dataType] && checkDrift(values, neighbourSeries[dataType]);
+			report('neighbour-drift', dataType, last.timestamp, last.value, drift ? [drift] : []);
+		}
+	}
+
+	if (series.battery) {
+		const last = series.battery[series.battery.length - 1];
+		report('battery', 'battery', last.timestamp, last.value, checkBattery(series.battery));
+	}
+
+	if (series.signal) {
+		const last = series.signal[series.signal.length - 1];
+		const decline = checkSignal(series.signal);
+		report('signal-trend', 'signal', last.timestamp, last.value, decline ? [decline] : []);
+	}
+
+	// Worst clock offsets, against the time each reading arrived
+	let ahead: { reading: SensorReading; offset: number } | null = null;
+	let behind: { reading: SensorReading; offset: number } | null = null;
+	for (const reading of sorted) {
+		const arrival = (reading as Partial<QueuedSensorReading>).queuedAt ?? now;
+		const offset = reading.timestamp - arrival;
+		if (offset > (ahead?.offset ?? CLOCK_TOLERANCE)) ahead = { reading, offset };
+		if (-offset > (behind?.offset ?? MAX_CLOCK_LAG)) behind = { reading, offset: -offset };
+	}
+	const clock = (ahead ?? behind)?.reading;
+	if (clock) {
+		report('clock', clock.dataType, clock.timestamp, readingValue(clock) ?? 0, [
+			...(ahead
+				? [
+						{
+							type: 'future_timestamp',
+							threshold: CLOCK_TOLERANCE,
+							actual: ahead.offset,
+							severity: 'error' as const
+						}
+					]
+				: []),
+			...(behind
+				? [
+						{
+							type: 'clock_skew',
+							threshold: MAX_CLOCK_LAG,
+							actual: behind.offset,
+							severity: 'warning' as const
+						}
+					]
+				: [])
+		]);
+	}
+
+	// Readings of one stream sent more than once with the same timestamp
+	const seen = new Map<string, SensorReading>();
+	const duplicates = new Map<string, { count: number; reading: SensorReading }>();
+	for (const reading of sorted) {
+		const key = JSON.stringify([reading.dataType, reading.timestamp]);
+		if (!seen.has(key)) {
+			seen.set(key, reading);
+			continue;
+		}
+		const entry = duplicates.get(reading.dataType) ?? { count: 0, reading };
+		duplicates.set(reading.dataType, { count: entry.count + 1, reading });
+	}
+	for (const [dataType, { count, reading }] of duplicates) {
+		report('duplicates', dataType, reading.timestamp, readingValue(reading) ?? 0, [
+			{ type: 'duplicate_reading', threshold: 0, actual: count, severity: 'info' }
+		]);
+	}
+
+	return reports;
+}
+
+/**
+ * Health score from 0 to 100 for a device's diagnostic reports
+ */
+export function healthScore(reports: AnomalyReport[]): number {
+	return Math.max(0, 100 - reports.reduce((sum, report) => sum + PENALTIES[report.severity], 0));
+}
+
+/**
+ * Diagnose a device from its latest stored readings
+ * @returns The device's health, or null when nothing of it is stored
+ */
+export async function getDeviceHealth(deviceId: string): Promise<DeviceHealth | null> {
+	const readings = await IndexedDBDataService.getSensorData({
+		deviceId,
+		order: 'desc',
+		limit: HEALTH_SAMPLE
+	});
+	if (readings.length === 0) return null;
+
+	// Neighbours are the other devices at the device's latest location, over
+	// the recent span drift is judged on
+	const { location, timestamp: latest } = readings[0];
+	const neighbours = await IndexedDBDataService.getSensorData({
+		location,
+		fromTimestamp:
+			Math.max(readings[readings.length - 1].timestamp, latest - NEIGHBOUR_SPAN) - PAIRING_WINDOW,
+		toTimestamp: latest + PAIRING_WINDOW,
+		order: 'desc',
+		limit: NEIGHBOUR_SAMPLE
+	});
+
+	const reports = diagnoseDevice(
+		readings,
+		neighbours.filter((reading) => reading.deviceId !== deviceId)
+	);
+
+	return {
+		deviceId,
+		score: healthScore(reports),
+		reports,
+		readingCount: readings.length,
+		checkedAt: Date.now()
+	};
+}
+
+/**
+ * Diagnose the devices new readings came from
+ * A device checked within CHECK_INTERVAL is skipped; its next check covers the
+ * readings in between
+ * @param readings Newly stored readings
+ * @returns The devices' diagnostic reports
+ */
+export async function checkDeviceHealth(readings: SensorReading[]): Promise<AnomalyReport[]> {
+	const now = Date.now();
+	const deviceIds = readings
+		.map((reading) => reading.deviceId)
+		.filter((deviceId, i, all) => all.indexOf(deviceId) === i)
+		.filter((deviceId) => now - (lastChecked[deviceId] ?? -Infinity) >= CHECK_INTERVAL);
+
+	const reports: AnomalyReport[] = [];
+	for (const deviceId of deviceIds) {
+		lastChecked[deviceId] = now;
+		const health = await getDeviceHealth(deviceId);
+		reports.push(...(health?.reports ?? []));
+	}
+	return reports;
+}
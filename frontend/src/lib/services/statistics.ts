@@ -0,0 +1,244 @@
+import type { HistogramBin, SensorStatistics, StatsState } from '$lib/types';
+
+/**
+ * Streaming, mergeable statistics for sensor values
+ * The state is a plain object, so it can be stored on an aggregate and merged
+ * with its neighbours' later: Welford's running mean and variance, a merging
+ * t-digest for percentiles and histograms, and sample-and-hold integrals for
+ * the time-weighted mean.
+ */
+
+// t-digest compression; higher keeps more centroids and sharper percentiles
+const COMPRESSION = 100;
+
+// Centroids buffered before they are compressed
+const CENTROID_BUFFER = 5 * COMPRESSION;
+
+/**
+ * Empty statistics state
+ */
+export function createStats(): StatsState {
+	return {
+		count: 0,
+		missing: 0,
+		mean: 0,
+		m2: 0,
+		min: Infinity,
+		max: -Infinity,
+		centroids: [],
+		firstTimestamp: null,
+		lastTimestamp: null,
+		lastValue: 0,
+		weightedSum: 0,
+		weightedDuration: 0
+	};
+}
+
+/**
+ * Add one reading's value
+ * @param state State to update in place
+ * @param value Numeric value, or null when the reading had none
+ * @param timestamp Reading time in milliseconds
+ */
+export function addValue(state: StatsState, value: number | null, timestamp: number): StatsState {
+	if (value === null || !Number.isFinite(value)) {
+		state.missing++;
+		return state;
+	}
+
+	// Readings out of time order are merged, which handles the hold intervals
+	if (state.lastTimestamp !== null && timestamp < state.lastTimestamp) {
+		return Object.assign(state, mergeStats(state, singleValue(value, timestamp)));
+	}
+
+	// Welford update
+	state.count++;
+	const delta = value - state.mean;
+	state.mean += delta / state.count;
+	state.m2 += delta * (value - state.mean);
+	state.min = Math.min(state.min, value);
+	state.max = Math.max(state.max, value);
+
+	state.centroids.push([value, 1]);
+	if (state.centroids.length > CENTROID_BUFFER) {
+		state.centroids = compress(state.centroids, state.count);
+	}
+
+	// The previous value held until this reading
+	if (state.lastTimestamp !== null) {
+		state.weightedSum += state.lastValue * (timestamp - state.lastTimestamp);
+		state.weightedDuration += timestamp - state.lastTimestamp;
+	}
+	state.firstTimestamp ??= timestamp;
+	state.lastTimestamp = timestamp;
+	state.lastValue = value;
+
+	return state;
+}
+
+function singleValue(value: number, timestamp: number): StatsState {
+	return addValue(createStats(), value, timestamp);
+}
+
+/**
+ * Combine two states as if their values had been added to one
+ * Time-weighted means are joined across the gap when one state ends before the
+ * other starts; overlapping states are combined without bridging
+ */
+export function mergeStats(a: StatsState, b: StatsState): StatsState {
+	if (a.count === 0) return { ...b, missing: a.missing + b.missing };
+	if (b.count === 0) return { ...a, missing: a.missing + b.missing };
+
+	// Welford/Chan parallel combination
+	const count = a.count + b.count;
+	const delta = b.mean - a.mean;
+	const mean = a.mean + (delta * b.count) / count;
+	const m2 = a.m2 + b.m2 + (delta * delta * a.count * b.count) / count;
+
+	const [earlier, later] = a.firstTimestamp! <= b.firstTimestamp! ? [a, b] : [b, a];
+	let weightedSum = a.weightedSum + b.weightedSum;
+	let weightedDuration = a.weightedDuration + b.weightedDuration;
+	if (later.firstTimestamp! >= earlier.lastTimestamp!) {
+		// The earlier state's last value holds until the later one's first reading
+		const gap = later.firstTimestamp! - earlier.lastTimestamp!;
+		weightedSum += earlier.lastValue * gap;
+		weightedDuration += gap;
+	}
+	const last = a.lastTimestamp! >= b.lastTimestamp! ? a : b;
+
+	return {
+		count,
+		missing: a.missing + b.missing,
+		mean,
+		m2,
+		min: Math.min(a.min, b.min),
+		max: Math.max(a.max, b.max),
+		centroids: compress([...a.centroids, ...b.centroids], count),
+		firstTimestamp: earlier.firstTimestamp,
+		lastTimestamp: last.lastTimestamp,
+		lastValue: last.lastValue,
+		weightedSum,
+		weightedDuration
+	};
+}
+
+/**
+ * Merge neighbouring centroids while they stay within the t-digest size limit,
+ * which keeps the tails at full resolution
+ */
+function compress(centroids: Array<[number, number]>, count: number): Array<[number, number]> {
+	if (centroids.length === 0) return [];
+
+	const sorted = [...centroids].sort((x, y) => x[0] - y[0]);
+	const result: Array<[number, number]> = [];
+	let current = sorted[0];
+	let weightBefore = 0;
+
+	for (const next of sorted.slice(1)) {
+		const weight = current[1] + next[1];
+		const q = (weightBefore + weight / 2) / count;
+
+		if (weight <= (4 * count * q * (1 - q)) / COMPRESSION) {
+			current = [(current[0] * current[1] + next[0] * next[1]) / weight, weight];
+		} else {
+			result.push(current);
+			weightBefore += current[1];
+			current = next;
+		}
+	}
+	result.push(current);
+
+	return result;
+}
+
+/**
+ * Estimate a quantile, interpolating between centroid centres
+ * Exact while every value is its own centroid
+ * @param q Quantile between 0 and 1
+ */
+export function quantile(state: StatsState, q: number): number {
+	if (state.count === 0) return 0;
+
+	const target = Math.min(Math.max(q, 0), 1) * state.count;
+	let previous: [number, number] = [state.min, 0.5];
+	let weightBefore = 0;
+
+	for (const [mean, weight] of compress(state.centroids, state.count)) {
+		const centre = weightBefore + weight / 2;
+		if (target <= centre) {
+			if (centre === previous[1]) return mean;
+			const t = Math.max(0, (target - previous[1]) / (centre - previous[1]));
+			return previous[0] + t * (mean - previous[0]);
+		}
+
+		previous = [mean, centre];
+		weightBefore += weight;
+	}
+
+	// Past the last centre, towards the maximum
+	const t = Math.min(1, (target - previous[1]) / (state.count - 0.5 - previous[1] || 1));
+	return previous[0] + t * (state.max - previous[0]);
+}
+
+/**
+ * Equal-width histogram between the minimum and maximum, from the centroids
+ * @param bins Number of bins
+ */
+export function histogram(state: StatsState, bins = 10): HistogramBin[] {
+	if (state.count === 0) return [];
+
+	const width = (state.max - state.min) / bins || 1;
+	const result: HistogramBin[] = Array.from({ length: bins }, (_, i) => ({
+		from: state.min + i * width,
+		to: state.min + (i + 1) * width,
+		count: 0
+	}));
+
+	for (const [mean, weight] of state.centroids) {
+		const bin = Math.min(bins - 1, Math.floor((mean - state.min) / width));
+		result[bin].count += weight;
+	}
+
+	return result;
+}
+
+/**
+ * Summary statistics of a state
+ * Standard deviation is the population one; the time-weighted mean holds each
+ * value until the next reading and falls back to the plain mean for one reading
+ */
+export function summarizeStats(state: StatsState): SensorStatistics {
+	if (state.count === 0) {
+		return {
+			count: 0,
+			missing: state.missing,
+			min: 0,
+			max: 0,
+			average: 0,
+			median: 0,
+			standardDeviation: 0,
+			percentiles: { p5: 0, p25: 0, p75: 0, p95: 0 },
+			histogram: [],
+			timeWeightedAverage: 0
+		};
+	}
+
+	return {
+		count: state.count,
+		missing: state.missing,
+		min: state.min,
+		max: state.max,
+		average: state.mean,
+		median: quantile(state, 0.5),
+		standardDeviation: Math.sqrt(state.m2 / state.count),
+		percentiles: {
+			p5: quantile(state, 0.05),
+			p25: quantile(state, 0.25),
+			p75: quantile(state, 0.75),
+			p95: quantile(state, 0.95)
+		},
+		histogram: histogram(state),
+		timeWeightedAverage:
+			state.weightedDuration > 0 ? state.weightedSum / state.weightedDuration : state.mean
+	};
+}
@@ -0,0 +1,213 @@
+import type { CropImage, EvictionReport, StorageUsage, StoreUsage } from '$lib/types';
+import { IndexedDBDataService } from './dataService';
+import { openDatabase } from './database';
+import { sealedSize } from './encryption';
+import { RetentionService } from './retentionService';
+
+// Longest side of the thumbnail kept for an evicted image
+const THUMBNAIL_SIZE = 160;
+
+/**
+ * Shrink a data URL image to a JPEG thumbnail
+ */
+function createThumbnail(dataUrl: string): Promise<string> {
+	return new Promise((resolve, reject) => {
+		const img = new Image();
+
+		img.onload = () => {
+			const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(img.width, img.height));
+			const canvas = document.createElement('canvas');
+			canvas.width = Math.round(img.width * scale);
+			canvas.height = Math.round(img.height * scale);
+
+			const ctx = canvas.getContext('2d');
+			if (!ctx) {
+				reject(new Error('Failed to get canvas context'));
+				return;
+			}
+
+			ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+			resolve(canvas.toDataURL('image/jpeg', 0.6));
+		};
+
+		img.onerror = () => reject(new Error('Error loading image for thumbnail'));
+		img.src = dataUrl;
+	});
+}
+
+// Bytes an image takes up, blob plus preview
+function imageSize(image: CropImage): number {
+	return (image.data?.size ?? 0) + image.preview.length;
+}
+
+/**
+ * Storage quota monitoring and eviction
+ * Frees space before IndexedDB writes start failing: synced images lose their
+ * full-size data first, oldest first, keeping a thumbnail; then confirmed readings
+ * are compacted by the retention policy. Unsynced readings are never evicted.
+ */
+export class StorageService {
+	// Start freeing space above this share of the quota, down to the target
+	static readonly EVICTION_THRESHOLD = 0.8;
+	static readonly EVICTION_TARGET = 0.7;
+
+	private static readonly REPORT_KEY = 'storageLastEviction';
+	private static readonly CHECK_INTERVAL = 15 * 60 * 1000;
+	private static readonly EVICTION_PAGE = 20;
+
+	private static hasStorageManager(): boolean {
+		return typeof navigator !== 'undefined' && 'storage' in navigator;
+	}
+
+	/**
+	 * Ask the browser not to clear this origin's data under storage pressure
+	 * @returns Whether storage is persistent
+	 */
+	static async requestPersistence(): Promise<boolean> {
+		if (!this.hasStorageManager()) return false;
+		if (await navigator.storage.persisted()) return true;
+		return navigator.storage.persist();
+	}
+
+	/**
+	 * Browser usage and quota, with an approximate breakdown by store
+	 */
+	static async getUsage(): Promise<StorageUsage> {
+		const [estimate, persisted, sensorReadings, dataAggregates, cropImages] = await Promise.all([
+			this.hasStorageManager()
+				? navigator.storage.estimate()
+				: Promise.resolve<StorageEstimate>({}),
+			this.hasStorageManager() ? navigator.storage.persisted() : Promise.resolve(false),
+			this.measureStore('sensorReadings', (record) => JSON.stringify(record).length),
+			this.measureStore('dataAggregates', (record) => JSON.stringify(record).length),
+			this.measureStore('cropImages', (record) => imageSize(record as CropImage))
+		]);
+
+		return {
+			usage: estimate.usage ?? 0,
+			quota: estimate.quota ?? 0,
+			persisted,
+			stores: { sensorReadings, dataAggregates, cropImages }
+		};
+	}
+
+	static getLastEviction(): EvictionReport | null {
+		if (typeof localStorage === 'undefined') return null;
+
+		try {
+			return JSON.parse(localStorage.getItem(this.REPORT_KEY) ?? 'null');
+		} catch {
+			return null;
+		}
+	}
+
+	/**
+	 * Free space if usage is above the threshold
+	 * @param force Free space down to the target regardless of the threshold,
+	 *              e.g. after a write failed on quota
+	 * @returns What was freed, or null if nothing needed to be
+	 */
+	static async evictIfNeeded(force = false): Promise<EvictionReport | null> {
+		if (!this.hasStorageManager()) return null;
+
+		const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+		if (quota === 0 || (!force && usage < quota * this.EVICTION_THRESHOLD)) return null;
+
+		const report: EvictionReport = {
+			runAt: Date.now(),
+			imagesEvicted: 0,
+			readingsCompacted: 0,
+			bytesFreed: 0
+		};
+		const toFree = Math.max(usage - quota * this.EVICTION_TARGET, 0);
+
+		// Oldest synced images first
+		let pageToken: string | undefined;
+		do {
+			const page = await IndexedDBDataService.queryImages({
+				order: 'asc',
+				limit: this.EVICTION_PAGE,
+				pageToken
+			});
+
+			for (const image of page.items) {
+				if (report.bytesFreed >= toFree) break;
+				if (!image.syncedAt || image.evictedAt || image.id === undefined) continue;
+
+				const evicted: CropImage & { id: number } = {
+					...image,
+					id: image.id,
+					data: null,
+					preview: await createThumbnail(image.preview),
+					evictedAt: Date.now()
+				};
+				await IndexedDBDataService.updateImage(evicted);
+
+				report.imagesEvicted++;
+				report.bytesFreed += imageSize(image) - imageSize(evicted);
+			}
+
+			pageToken = page.nextPageToken ?? undefined;
+		} while (pageToken && report.bytesFreed < toFree);
+
+		// Then compact confirmed readings by the retention period, even if scheduled runs are off
+		if (report.bytesFreed < toFree) {
+			const retention = await RetentionService.run({
+				...RetentionService.getPolicy(),
+				enabled: true
+			});
+			report.readingsCompacted = retention?.compacted ?? 0;
+			report.bytesFreed += retention?.bytesFreed ?? 0;
+		}
+
+		localStorage.setItem(this.REPORT_KEY, JSON.stringify(report));
+		return report;
+	}
+
+	/**
+	 * Request persistence and check the quota periodically while the app is open
+	 * @returns Function to stop the checks
+	 */
+	static schedule(): () => void {
+		const check = () => {
+			this.evictIfNeeded().catch((error) => console.error('Storage eviction failed:', error));
+		};
+
+		this.requestPersistence().catch((error) =>
+			console.warn('Persistent storage unavailable:', error)
+		);
+		check();
+
+		const interval = window.setInterval(check, this.CHECK_INTERVAL);
+		return () => window.clearInterval(interval);
+	}
+
+	// Count a store's records and sum their approximate sizes
+	private static async measureStore(
+		storeName: 'sensorReadings' | 'dataAggregates' | 'cropImages',
+		sizeOf: (record: unknown) => number
+	): Promise<StoreUsage> {
+		const db = await openDatabase();
+		const request = db.transaction([storeName], 'readonly').objectStore(storeName).openCursor();
+
+		return new Promise((resolve, reject) => {
+			const usage: StoreUsage = { count: 0, bytes: 0 };
+
+			request.onsuccess = () => {
+				const cursor = request.result;
+				if (!cursor) {
+					resolve(usage);
+					return;
+				}
+
+				usage.count++;
+				// Sealed records are measured by their ciphertext
+				usage.bytes += sealedSize(cursor.value) ?? sizeOf(cursor.value);
+				cursor.continue();
+			};
+
+			request.onerror = () =>
+				reject(new Error(request.error?.message ?? `Failed to measure ${storeName}`));
+		});
+	}
+}
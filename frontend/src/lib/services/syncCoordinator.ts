@@ -0,0 +1,88 @@
+import type { OutboxState, SyncProgress } from '$lib/types';
+
+/**
+ * Cross-tab coordination for blockchain sync
+ * One tab holds the leader lock and runs auto-sync; any sync run, manual or
+ * automatic, holds the run lock so two tabs never submit the same readings
+ */
+
+const LEADER_LOCK = 'yieldsyncx-sync-leader';
+const RUN_LOCK = 'yieldsyncx-sync-run';
+const CHANNEL_NAME = 'yieldsyncx-sync';
+
+/**
+ * Sync state mirrored to every open tab
+ */
+export interface SharedSyncState {
+	isSyncing: boolean;
+	lastSyncTime: number | null;
+	outboxCounts: Record<OutboxState, number>;
+	syncError: string | null;
+	progress: SyncProgress | null;
+}
+
+export type SyncMessage =
+	{ type: 'state'; state: SharedSyncState } | { type: 'hello' } | { type: 'cancel' };
+
+function hasLocks(): boolean {
+	return typeof navigator !== 'undefined' && 'locks' in navigator;
+}
+
+/**
+ * Queue for the leader lock and hold it for the lifetime of the tab
+ * Without Web Locks every tab leads, as before
+ * @param onLeader Called once this tab becomes the leader
+ */
+export function electLeader(onLeader: () => void): void {
+	if (!hasLocks()) {
+		onLeader();
+		return;
+	}
+
+	navigator.locks.request(LEADER_LOCK, () => {
+		onLeader();
+		// Released when the tab closes
+		return new Promise<never>(() => {});
+	});
+}
+
+/**
+ * Run a sync while holding the run lock
+ * @param run Sync to perform
+ * @returns The sync result, or null if another tab is already syncing
+ */
+export async function withSyncLock<T>(run: () => Promise<T>): Promise<T | null> {
+	if (!hasLocks()) return run();
+
+	return navigator.locks.request(RUN_LOCK, { ifAvailable: true }, async (lock) =>
+		lock ? run() : null
+	);
+}
+
+/**
+ * Wait until no tab holds the run lock, e.g. after the syncing tab closed
+ */
+export async function waitForSyncLock(): Promise<void> {
+	if (!hasLocks()) return;
+
+	await navigator.locks.request(RUN_LOCK, { mode: 'shared' }, () => undefined);
+}
+
+/**
+ * Open the channel sync state is broadcast on
+ * @param onMessage Called for every message from another tab
+ * @returns Function to post a message, a no-op outside the browser
+ */
+export function openSyncChannel(
+	onMessage: (message: SyncMessage) => void
+): (message: SyncMessage) => void {
+	// Not opened during server rendering, where it would keep the process alive
+	if (typeof window === 'undefined' || typeof BroadcastChannel === 'undefined') {
+		return () => {};
+	}
+
+	const channel = new BroadcastChannel(CHANNEL_NAME);
+	channel.onmessage = (event: MessageEvent<SyncMessage>) => onMessage(event.data);
+
+	return (message: SyncMessage) => channel.postMessage(message);
+}
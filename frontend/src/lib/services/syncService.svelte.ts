@@ -0,0 +1,862 @@
+import { untrack } from 'svelte';
+import { formatEther } from 'ethers';
+import {
+  getUnsyncedSensorData,
+  getOutboxCounts,
+  markSensorDataInFlight,
+  markSensorDataAsSynced,
+  markSensorDataFailed,
+  moveToDeadLetter,
+  getDeadLetters,
+  retryDeadLetters as requeueDeadLetters,
+  discardDeadLetters as dropDeadLetters,
+  prepareSensorBatch,
+  groupReadingsByDevice
+} from './dataAggregation';
+import { ErrorService } from './errorService';
+import { blockchainStore } from '$lib/stores/blockchainStore';
+import { trigger } from '$lib/stores/toastStore.svelte';
+import { buildLayers, hashRecord } from './merkleTree';
+import { requestOutboxFlush } from './backgroundSync';
+import {
+  electLeader,
+  withSyncLock,
+  waitForSyncLock,
+  openSyncChannel,
+  type SharedSyncState,
+  type SyncMessage
+} from './syncCoordinator';
+import type {
+  DeadLetter,
+  OutboxState,
+  QueuedSensorReading,
+  SensorData,
+  SpendingCap,
+  StoredRecordReceipt,
+  SyncCostEstimate,
+  SyncProgress,
+  SyncProgressEvent
+} from '$lib/types';
+
+// Attempts per reading before it is dead-lettered
+const MAX_SYNC_ATTEMPTS = 5;
+
+// Backoff between attempts: doubles from the base delay up to the cap
+const RETRY_BASE_DELAY = 2000;
+const RETRY_MAX_DELAY = 60000;
+
+// Failures caused by the wallet or account rather than the reading; retrying
+// other readings would fail the same way, so the run stops
+const RUN_FATAL_ERRORS = ['INSUFFICIENT_FUNDS', 'NETWORK_MISMATCH', 'UNAUTHORIZED', 'TRANSACTION_REJECTED'];
+
+/**
+ * Error that stops the whole sync run
+ */
+class SyncAbortedError extends Error {
+  constructor(public code: string) {
+    super(ErrorService.getMessageForCode(code));
+    this.name = 'SyncAbortedError';
+  }
+}
+
+// Readings per storeDataBatch transaction; the contract accepts up to 100
+const DEFAULT_CHUNK_SIZE = 10;
+const MAX_CHUNK_SIZE = 100;
+
+/**
+ * Readings sent in one storeDataBatch transaction
+ */
+interface SyncChunk {
+  deviceId: string;
+  // Position among the device's chunks
+  chunk: number;
+  chunks: number;
+  readings: QueuedSensorReading[];
+  data: SensorData[];
+  gas: bigint | null;
+}
+
+// Records stored in one run before they are anchored in a Merkle batch
+const MIN_BATCH_RECORDS = 11;
+
+// Describe an auto-synced Merkle batch
+function describeBatch(fromIndex: number, toIndex: number): string {
+  return `Auto-synced batch ${fromIndex}-${toIndex} at ${new Date().toISOString()}`;
+}
+
+/**
+ * Anchor the on-chain index range spanned by a run's records in a Merkle batch
+ * Leaves of the run's own records come from their receipts; only records other
+ * devices stored in between are read back from the contract
+ * @param receipts Receipts of the records confirmed in this run
+ */
+async function createRangeBatch(receipts: StoredRecordReceipt[]): Promise<void> {
+  const leaves: Record<number, string> = {};
+  for (const receipt of receipts) {
+    leaves[receipt.recordId] = receipt.leaf;
+  }
+  const recordIds = receipts.map(receipt => receipt.recordId);
+  const fromIndex = Math.min(...recordIds);
+  const toIndex = Math.max(...recordIds);
+  
+  const missing: number[] = [];
+  for (let id = fromIndex; id <= toIndex; id++) {
+    if (!(id in leaves)) missing.push(id);
+  }
+  const records = await blockchainStore.getRecords(missing);
+  missing.forEach((id, i) => (leaves[id] = hashRecord(records[i])));
+  
+  const range = Array.from({ length: toIndex - fromIndex + 1 }, (_, i) => leaves[fromIndex + i]);
+  const merkleRoot = buildLayers(range).at(-1)![0];
+  
+  await blockchainStore.createBatch(fromIndex, toIndex, merkleRoot, describeBatch(fromIndex, toIndex));
+}
+
+// Exponential backoff with equal jitter, so retries from several readings spread out
+function retryDelay(attempt: number): number {
+  const delay = Math.min(RETRY_MAX_DELAY, RETRY_BASE_DELAY * 2 ** (attempt - 1));
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+// Keep a chunk size within what the contract accepts, falling back to the default
+function clampChunkSize(size: number): number {
+  if (!Number.isFinite(size) || size < 1) return DEFAULT_CHUNK_SIZE;
+  return Math.min(MAX_CHUNK_SIZE, Math.floor(size));
+}
+
+// Wait between attempts, cut short when the job is cancelled
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+}
+
+// Local calendar day the daily spending total belongs to
+function today(): string {
+  return new Date().toLocaleDateString('en-CA');
+}
+
+// Read the spending cap from the sync settings
+function loadSpendingCap(): SpendingCap | null {
+  if (typeof localStorage === 'undefined') return null;
+  
+  try {
+    const stored = JSON.parse(localStorage.getItem('syncSpendingCap') ?? 'null');
+    return stored ? { amount: BigInt(stored.amount), period: stored.period } : null;
+  } catch {
+    return null;
+  }
+}
+
+// Read what has been spent today, starting over on a new day
+function loadDailySpend(): bigint {
+  if (typeof localStorage === 'undefined') return 0n;
+  
+  try {
+    const stored = JSON.parse(localStorage.getItem('syncDailySpend') ?? 'null');
+    return stored?.day === today() ? BigInt(stored.amount) : 0n;
+  } catch {
+    return 0n;
+  }
+}
+
+function saveDailySpend(amount: bigint) {
+  if (typeof localStorage !== 'undefined') {
+    localStorage.setItem('syncDailySpend', JSON.stringify({ day: today(), amount: amount.toString() }));
+  }
+}
+
+/**
+ * Split unsynced readings into per-device transaction chunks
+ * @param readings Unsynced outbox readings
+ * @param chunkSize Readings per transaction
+ * @returns Chunks in send order, not yet estimated
+ */
+function planChunks(readings: QueuedSensorReading[], chunkSize: number): SyncChunk[] {
+  const chunks: SyncChunk[] = [];
+  
+  for (const [deviceId, group] of groupReadingsByDevice(readings)) {
+    const { formattedData } = prepareSensorBatch(group);
+    const count = Math.ceil(group.length / chunkSize);
+    
+    for (let i = 0; i < group.length; i += chunkSize) {
+      chunks.push({
+        deviceId,
+        chunk: i / chunkSize,
+        chunks: count,
+        readings: group.slice(i, i + chunkSize),
+        data: formattedData.slice(i, i + chunkSize),
+        gas: null
+      });
+    }
+  }
+  
+  return chunks;
+}
+
+/**
+ * Starting progress of a job over the planned chunks
+ * @param chunks Planned chunks, grouped by device
+ */
+function createProgress(chunks: SyncChunk[]): SyncProgress {
+  const progress: SyncProgress = {
+    startedAt: Date.now(),
+    total: 0,
+    done: 0,
+    deadLettered: 0,
+    current: null,
+    devices: []
+  };
+  
+  for (const chunk of chunks) {
+    let device = progress.devices.find(entry => entry.deviceId === chunk.deviceId);
+    if (!device) {
+      device = {
+        deviceId: chunk.deviceId,
+        total: 0,
+        done: 0,
+        deadLettered: 0,
+        chunks: chunk.chunks,
+        chunksDone: 0,
+        txHashes: []
+      };
+      progress.devices.push(device);
+    }
+    device.total += chunk.readings.length;
+    progress.total += chunk.readings.length;
+  }
+  
+  return progress;
+}
+
+/**
+ * Estimate gas for every chunk at the provider's current fee
+ * A chunk whose estimate reverts is left unestimated and priced from the
+ * others before it is sent
+ * @param chunks Planned chunks, updated with their gas estimates
+ * @returns Total cost next to the account balance
+ */
+async function estimateChunks(chunks: SyncChunk[]): Promise<SyncCostEstimate> {
+  const [feePerGas, balance] = await Promise.all([
+    blockchainStore.getFeePerGas(),
+    blockchainStore.getBalance()
+  ]);
+  let gas = 0n;
+  let unestimated = 0;
+  
+  for (const chunk of chunks) {
+    try {
+      chunk.gas = await blockchainStore.estimateDataBatchGas(chunk.data);
+      gas += chunk.gas;
+    } catch (error) {
+      console.warn('Gas estimate failed for chunk:', error);
+      unestimated++;
+    }
+  }
+  
+  return {
+    chunks: chunks.length,
+    unestimated,
+    gas,
+    feePerGas,
+    totalCost: gas * feePerGas,
+    balance,
+    estimatedAt: Date.now()
+  };
+}
+
+/**
+ * Expected cost of each chunk at the given fee
+ * A chunk left unestimated is charged the run's largest gas per reading for its
+ * length; its cost is unknown when no chunk could be estimated
+ */
+function chunkCosts(chunks: SyncChunk[], feePerGas: bigint): (bigint | null)[] {
+  let gasPerReading = 0n;
+  for (const chunk of chunks) {
+    if (chunk.gas !== null) {
+      const length = BigInt(chunk.readings.length);
+      const perReading = (chunk.gas + length - 1n) / length;
+      if (perReading > gasPerReading) {
+        gasPerReading = perReading;
+      }
+    }
+  }
+  
+  return chunks.map(chunk => {
+    if (chunk.gas !== null) {
+      return chunk.gas * feePerGas;
+    }
+    return gasPerReading > 0n ? gasPerReading * BigInt(chunk.readings.length) * feePerGas : null;
+  });
+}
+
+/**
+ * Submit a chunk of readings in one transaction, retrying transient failures
+ * until every reading is confirmed or dead-lettered
+ * @param readings Outbox readings
+ * @param data Readings formatted for the contract, in the same order
+ * @param onFee Called with the fee paid by each mined transaction
+ * @param signal Cancels the job; checked only between transactions, so a
+ *               submitted transaction is always followed to its receipt
+ * @returns On-chain receipts of the confirmed readings
+ */
+async function syncChunk(
+  readings: QueuedSensorReading[],
+  data: SensorData[],
+  onFee: (fee: bigint) => void,
+  signal: AbortSignal
+): Promise<StoredRecordReceipt[]> {
+  const ids = readings.map(reading => reading.id);
+  let attempts = Math.max(...readings.map(reading => reading.attempts ?? 0));
+  
+  for (;;) {
+    signal.throwIfAborted();
+    await markSensorDataInFlight(ids);
+    attempts++;
+    
+    try {
+      const { receipts, fee } = await blockchainStore.submitDataBatch(data);
+      onFee(fee);
+      await markSensorDataAsSynced(receipts.map((receipt, i) => ({ id: ids[i], ...receipt })));
+      return receipts;
+    } catch (error) {
+      const code = ErrorService.classifyError(error);
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Sync attempt ${attempts} for readings ${ids.join(', ')} failed:`, error);
+      
+      if (RUN_FATAL_ERRORS.includes(code)) {
+        await markSensorDataFailed(ids, message, code);
+        throw new SyncAbortedError(code);
+      }
+      
+      // A rejected chunk may hold a single bad reading; send them one by one
+      // so only that reading is dead-lettered
+      if (!ErrorService.isRetryable(code) && readings.length > 1) {
+        await markSensorDataFailed(ids, message, code);
+        
+        const receipts: StoredRecordReceipt[] = [];
+        for (let i = 0; i < readings.length && !signal.aborted; i++) {
+          receipts.push(...await syncChunk([{ ...readings[i], attempts }], [data[i]], onFee, signal));
+        }
+        return receipts;
+      }
+      
+      if (!ErrorService.isRetryable(code) || attempts >= MAX_SYNC_ATTEMPTS) {
+        for (const id of ids) {
+          await moveToDeadLetter(id, code, message);
+        }
+        return [];
+      }
+      
+      await markSensorDataFailed(ids, message, code);
+      await sleep(retryDelay(attempts), signal);
+    }
+  }
+}
+
+/**
+ * Sync status store using Svelte 5 reactivity
+ */
+export function createSyncStore() {
+  // Mirror the wallet connection of the blockchain store
+  let connected = $state(false);
+  blockchainStore.subscribe(state => {
+    connected = state.connected;
+  });
+  
+  // State variables with explicit typing
+  let isSyncing = $state(false);
+  let lastSyncTime = $state<number | null>(null);
+  let outboxCounts = $state<Record<OutboxState, number>>({
+    'pending': 0,
+    'in-flight': 0,
+    'confirmed': 0,
+    'failed': 0,
+    'dead-letter': 0
+  });
+  const pendingCount = $derived(
+    outboxCounts['pending'] + outboxCounts['in-flight'] + outboxCounts['failed']
+  );
+  let syncError = $state<string | null>(null);
+  let deadLetters = $state<DeadLetter[]>([]);
+  let autoSyncEnabled = $state(
+    typeof localStorage !== 'undefined' && localStorage.getItem('autoSyncEnabled') === 'true'
+  );
+  let chunkSize = $state(
+    clampChunkSize(Number(typeof localStorage !== 'undefined' && localStorage.getItem('syncChunkSize')))
+  );
+  let costEstimate = $state<SyncCostEstimate | null>(null);
+  let spendingCap = $state<SpendingCap | null>(loadSpendingCap());
+  let sessionSpent = $state(0n);
+  let dailySpent = $state(loadDailySpend());
+  const spent = $derived(spendingCap?.period === 'daily' ? dailySpent : sessionSpent);
+  // Cost of the chunk the cap last stopped a run at; auto-sync stays paused
+  // until the budget covers it
+  let blockedCost = $state<bigint | null>(null);
+  const capReached = $derived(
+    spendingCap !== null &&
+      (spent >= spendingCap.amount ||
+        (blockedCost !== null && spent + blockedCost > spendingCap.amount))
+  );
+  
+  // Cross-tab coordination: whether this tab auto-syncs, and whether the
+  // running sync belongs to this tab or is mirrored from another
+  let isLeader = $state(false);
+  let syncingHere = false;
+  let watchingRemoteSync = false;
+  const postMessage = openSyncChannel(handleMessage);
+  
+  // Progress of the running job and how to cancel it when it runs here
+  let progress = $state<SyncProgress | null>(null);
+  let abortController: AbortController | null = null;
+  let progressListeners: ((event: SyncProgressEvent) => void)[] = [];
+  
+  // Update pending count
+  async function updatePendingCount() {
+    try {
+      outboxCounts = await getOutboxCounts();
+    } catch (error) {
+      console.error('Error checking pending data:', error);
+    }
+  }
+  
+  // Reload the dead-letter list
+  async function refreshDeadLetters() {
+    try {
+      deadLetters = await getDeadLetters();
+    } catch (error) {
+      console.error('Error loading dead letters:', error);
+    }
+  }
+  
+  // Send dead-lettered readings back to the sync queue
+  async function retryDeadLetters(ids: number[]) {
+    await requeueDeadLetters(ids);
+    await Promise.all([updatePendingCount(), refreshDeadLetters()]);
+    
+    if (connected) {
+      syncData();
+    }
+  }
+  
+  // Drop dead-lettered readings for good
+  async function discardDeadLetters(ids: number[]) {
+    await dropDeadLetters(ids);
+    await Promise.all([updatePendingCount(), refreshDeadLetters()]);
+  }
+  
+  // Toggle auto-sync
+  function toggleAutoSync(enabled: boolean) {
+    autoSyncEnabled = enabled;
+    
+    if (typeof localStorage !== 'undefined') {
+      localStorage.setItem('autoSyncEnabled', enabled.toString());
+    }
+    
+    if (enabled) {
+      // Perform initial sync
+      syncData();
+    }
+  }
+  
+  // Set how many readings go into each transaction
+  function setChunkSize(size: number) {
+    chunkSize = clampChunkSize(size);
+    
+    if (typeof localStorage !== 'undefined') {
+      localStorage.setItem('syncChunkSize', chunkSize.toString());
+    }
+  }
+  
+  // Set or clear the spending cap
+  function setSpendingCap(cap: SpendingCap | null) {
+    spendingCap = cap;
+    blockedCost = null;
+    
+    if (typeof localStorage !== 'undefined') {
+      localStorage.setItem('syncSpendingCap', JSON.stringify(
+        cap ? { amount: cap.amount.toString(), period: cap.period } : null
+      ));
+    }
+  }
+  
+  // Add a mined transaction's fee to the session and daily totals
+  function recordSpend(fee: bigint) {
+    sessionSpent += fee;
+    dailySpent = loadDailySpend() + fee;
+    saveDailySpend(dailySpent);
+  }
+  
+  // Estimate what syncing the pending readings would cost
+  async function estimateSyncCost(): Promise<SyncCostEstimate | null> {
+    if (!connected) {
+      return null;
+    }
+    
+    try {
+      const chunks = planChunks(await getUnsyncedSensorData(), chunkSize);
+      costEstimate = await estimateChunks(chunks);
+    } catch (error) {
+      console.error('Error estimating sync cost:', error);
+    }
+    return costEstimate;
+  }
+  
+  // Subscribe to the progress events of sync jobs run in this tab
+  function onProgress(listener: (event: SyncProgressEvent) => void): () => void {
+    progressListeners = [...progressListeners, listener];
+    return () => {
+      progressListeners = progressListeners.filter(entry => entry !== listener);
+    };
+  }
+  
+  // Cancel the running job once its current transaction is mined; a job
+  // running in another tab is asked to cancel itself
+  function cancelSync() {
+    if (syncingHere) {
+      abortController?.abort();
+    } else if (isSyncing) {
+      postMessage({ type: 'cancel' });
+    }
+  }
+  
+  // Current state as mirrored to the other tabs
+  function sharedState(): SharedSyncState {
+    return {
+      isSyncing,
+      lastSyncTime,
+      outboxCounts: $state.snapshot(outboxCounts),
+      syncError,
+      progress: $state.snapshot(progress)
+    };
+  }
+  
+  function broadcastState() {
+    postMessage({ type: 'state', state: sharedState() });
+  }
+  
+  // Mirror the state of a sync running in another tab
+  function applyRemoteState(state: SharedSyncState) {
+    if (syncingHere) {
+      return;
+    }
+    
+    isSyncing = state.isSyncing;
+    lastSyncTime = state.lastSyncTime;
+    outboxCounts = state.outboxCounts;
+    syncError = state.syncError;
+    progress = state.progress;
+    
+    if (!state.isSyncing) {
+      refreshDeadLetters();
+    } else if (!watchingRemoteSync) {
+      // Clear the flag even if the syncing tab closes without reporting back
+      watchingRemoteSync = true;
+      waitForSyncLock().then(() => {
+        watchingRemoteSync = false;
+        if (!syncingHere && isSyncing) {
+          isSyncing = false;
+          updatePendingCount();
+          refreshDeadLetters();
+        }
+      });
+    }
+  }
+  
+  function handleMessage(message: SyncMessage) {
+    if (message.type === 'state') {
+      applyRemoteState(message.state);
+    } else if (message.type === 'hello' && (isLeader || syncingHere)) {
+      broadcastState();
+    } else if (message.type === 'cancel' && syncingHere) {
+      abortController?.abort();
+    }
+  }
+  
+  // Synchronize offline data with blockchain
+  async function syncData(): Promise<boolean> {
+    // Don't sync if already syncing or not connected
+    if (isSyncing || !connected) {
+      return false;
+    }
+    
+    // Null when another tab holds the run lock; its progress arrives by broadcast
+    return (await withSyncLock(runSync)) ?? false;
+  }
+  
+  // Sync run, called while holding the cross-tab run lock
+  async function runSync(): Promise<boolean> {
+    isSyncing = true;
+    syncingHere = true;
+    syncError = null;
+    progress = null;
+    abortController = new AbortController();
+    const { signal } = abortController;
+    broadcastState();
+    
+    try {
+      // Get unsynced data. The run lock keeps other tabs from syncing, so readings
+      // still in flight here were interrupted by an earlier session and are resent.
+      const unsyncedData = await getUnsyncedSensorData();
+      
+      if (unsyncedData.length === 0) {
+        await updatePendingCount();
+        lastSyncTime = Date.now();
+        return true;
+      }
+      
+      // Plan the transactions and price them before anything is sent
+      const chunks = planChunks(unsyncedData, chunkSize);
+      const estimate = await estimateChunks(chunks);
+      costEstimate = estimate;
+      
+      // Pick up a new day's budget
+      dailySpent = loadDailySpend();
+      
+      // Send only the chunks the cap and the balance cover. A chunk that can't
+      // be priced is never sent under a cap.
+      const costs = chunkCosts(chunks, estimate.feePerGas);
+      let balance = estimate.balance;
+      const onFee = (fee: bigint) => {
+        recordSpend(fee);
+        balance -= fee;
+      };
+      blockedCost = null;
+      
+      const confirmedReceipts: StoredRecordReceipt[] = [];
+      let deadLettered = 0;
+      let capStopped = false;
+      let balanceStopped = false;
+      progress = createProgress(chunks);
+      
+      // Send the readings in chunks and record their outcome in the outbox;
+      // readings that keep failing are dead-lettered without holding up the rest
+      for (const [i, chunk] of chunks.entries()) {
+        signal.throwIfAborted();
+        
+        const cost = costs[i];
+        if (spendingCap && (cost === null || spent + cost > spendingCap.amount)) {
+          // An unpriced chunk fits no budget
+          blockedCost = cost ?? spendingCap.amount + 1n;
+          capStopped = true;
+          break;
+        }
+        if (cost !== null && cost > balance) {
+          balanceStopped = true;
+          break;
+        }
+        
+        progress.current = { deviceId: chunk.deviceId, chunk: chunk.chunk };
+        const receipts = await syncChunk(chunk.readings, chunk.data, onFee, signal);
+        const txHashes = receipts
+          .map(receipt => receipt.txHash)
+          .filter((hash, i, hashes) => hashes.indexOf(hash) === i);
+        
+        confirmedReceipts.push(...receipts);
+        deadLettered += chunk.readings.length - receipts.length;
+        
+        // A chunk cut short by cancellation is counted by what went through
+        const skipped = signal.aborted ? 0 : chunk.readings.length - receipts.length;
+        const device = progress.devices.find(entry => entry.deviceId === chunk.deviceId)!;
+        device.done += receipts.length;
+        device.deadLettered += skipped;
+        device.chunksDone++;
+        device.txHashes.push(...txHashes);
+        progress.done += receipts.length;
+        progress.deadLettered += skipped;
+        progress.current = null;
+        
+        const event: SyncProgressEvent = {
+          deviceId: chunk.deviceId,
+          chunk: chunk.chunk,
+          chunks: chunk.chunks,
+          done: device.done,
+          total: device.total,
+          txHashes
+        };
+        for (const listener of progressListeners) {
+          listener(event);
+        }
+        
+        // Let every tab follow the progress
+        await updatePendingCount();
+        broadcastState();
+      }
+      signal.throwIfAborted();
+      const confirmed = confirmedReceipts.length;
+      
+      // Create batch record with Merkle root (if enough records). The records are
+      // already confirmed, so a failure here, such as an account without the
+      // admin role, is only a warning
+      if (confirmed >= MIN_BATCH_RECORDS) {
+        try {
+          await createRangeBatch(confirmedReceipts);
+        } catch (error) {
+          console.warn('Failed to create Merkle batch:', error);
+          trigger({
+            message: `Records synchronized, but their Merkle batch was not created: ${
+              error instanceof Error ? error.message : 'unknown error'
+            }`,
+            background: 'preset-filled-warning'
+          });
+        }
+      }
+      
+      // Update last sync time
+      lastSyncTime = Date.now();
+      
+      // Show summary notification
+      if (capStopped) {
+        syncError = `Spending cap of ${formatEther(spendingCap!.amount)} DEV reached; auto-sync is paused`;
+        trigger({
+          message: `Synchronized ${confirmed} records before reaching the spending cap`,
+          background: 'preset-filled-warning'
+        });
+      } else if (balanceStopped) {
+        // Not retried in the background: only a top-up lets the rest through
+        syncError = `Balance of ${formatEther(balance)} DEV is too low for the remaining records`;
+        trigger({
+          message: `Synchronized ${confirmed} records before running out of DEV`,
+          background: 'preset-filled-warning'
+        });
+      } else if (deadLettered > 0) {
+        trigger({
+          message: `Synchronized ${confirmed} records, ${deadLettered} moved to dead letters`,
+          background: 'preset-filled-warning'
+        });
+      } else {
+        trigger({
+          message: `Successfully synchronized ${confirmed} records`,
+          background: 'preset-filled-success' // Updated from variant-* to preset-*
+        });
+      }
+      
+      return true;
+    } catch (error) {
+      // Cancelled between transactions: what was sent stays confirmed and the
+      // rest stays queued for the next run
+      if (signal.aborted) {
+        trigger({
+          message: `Sync cancelled after ${progress?.done ?? 0} records`,
+          background: 'preset-filled-warning'
+        });
+        return false;
+      }
+      
+      console.error('Error syncing data:', error);
+      syncError = error instanceof Error ? error.message : 'Unknown sync error';
+      
+      // Try again in the background once connectivity returns
+      requestOutboxFlush();
+      
+      // Show error notification
+      trigger({
+        message: `Sync error: ${syncError}`,
+        background: 'preset-filled-error' // Updated from variant-* to preset-*
+      });
+      
+      return false;
+    } finally {
+      // Refresh counts from the outbox, whether or not every reading went through
+      await Promise.all([updatePendingCount(), refreshDeadLetters()]);
+      if (progress) {
+        progress.current = null;
+      }
+      abortController = null;
+      isSyncing = false;
+      syncingHere = false;
+      broadcastState();
+    }
+  }
+  
+  // Set up auto-sync
+  function setupAutoSync() {
+    // The store outlives any component, so its effect needs its own root
+    return $effect.root(() => {
+      $effect(() => {
+        // Only the leader tab syncs automatically
+        if (isLeader && connected && autoSyncEnabled && !capReached) {
+          // Don't let the sync's own state changes re-trigger this effect
+          untrack(() => syncData());
+        }
+      });
+      
+      // Set up interval for checking pending data and the daily budget
+      const interval = window.setInterval(() => {
+        updatePendingCount();
+        dailySpent = loadDailySpend();
+      }, 30000);
+      
+      // Initial pending count update
+      updatePendingCount();
+      refreshDeadLetters();
+      
+      // Follow settings changed in other tabs
+      const onStorage = (event: StorageEvent) => {
+        if (event.key === 'autoSyncEnabled') {
+          autoSyncEnabled = event.newValue === 'true';
+        } else if (event.key === 'syncChunkSize') {
+          chunkSize = clampChunkSize(Number(event.newValue));
+        } else if (event.key === 'syncSpendingCap') {
+          spendingCap = loadSpendingCap();
+        } else if (event.key === 'syncDailySpend') {
+          dailySpent = loadDailySpend();
+        }
+      };
+      window.addEventListener('storage', onStorage);
+      
+      // Join the other tabs: ask for the current state and queue for leadership
+      postMessage({ type: 'hello' });
+      electLeader(() => {
+        isLeader = true;
+      });
+      
+      // Return cleanup function
+      return () => {
+        window.clearInterval(interval);
+        window.removeEventListener('storage', onStorage);
+      };
+    });
+  }
+  
+  // Setup auto-sync if in browser environment
+  if (typeof window !== 'undefined') {
+    setupAutoSync();
+  }
+  
+  // Expose reactive state through getters so consumers stay in sync
+  return {
+    get isSyncing() { return isSyncing; },
+    get lastSyncTime() { return lastSyncTime; },
+    get pendingCount() { return pendingCount; },
+    get outboxCounts() { return outboxCounts; },
+    get syncError() { return syncError; },
+    get autoSyncEnabled() { return autoSyncEnabled; },
+    get chunkSize() { return chunkSize; },
+    get deadLetters() { return deadLetters; },
+    get costEstimate() { return costEstimate; },
+    get spendingCap() { return spendingCap; },
+    get spent() { return spent; },
+    get capReached() { return capReached; },
+    get isLeader() { return isLeader; },
+    get progress() { return progress; },
+    syncData,
+    cancelSync,
+    onProgress,
+    toggleAutoSync,
+    setChunkSize,
+    setSpendingCap,
+    estimateSyncCost,
+    updatePendingCount,
+    refreshDeadLetters,
+    retryDeadLetters,
+    discardDeadLetters
+  };
+}
+
+// Create and export the store
+export const syncStore = createSyncStore();
@@ -0,0 +1,339 @@
+import type {
+	CropStage,
+	SensorReading,
+	SensorThresholds,
+	ThresholdProfile,
+	ThresholdProfileDraft,
+	ThresholdSource
+} from '$lib/types';
+import { openDatabase, promisifyRequest, transactionDone } from './database';
+
+/**
+ * Threshold profiles
+ * Users keep thresholds per data type, optionally scoped to a location, a crop,
+ * a growth stage and a span of dates. A reading's crop and growth stage come
+ * from the crop stage plan of its location. Detection uses the most specific
+ * profile that matches, or the built-in defaults, from copies held in memory.
+ * Every save raises the profile's version and keeps a copy of it.
+ */
+
+// Built-in thresholds of each data type, in canonical units
+export const DEFAULT_THRESHOLDS: Record<string, SensorThresholds> = {
+	temperature: {
+		min: 5,
+		max: 40,
+		rateOfChangeWarning: 5, // °C per hour
+		rateOfChangeAlert: 10, // °C per hour
+		normalRange: [15, 30]
+	},
+	humidity: {
+		min: 20,
+		max: 95,
+		rateOfChangeWarning: 15, // % per hour
+		rateOfChangeAlert: 30, // % per hour
+		normalRange: [40, 80]
+	},
+	'soil-moisture': {
+		min: 10,
+		max: 100,
+		rateOfChangeWarning: 20, // % per hour
+		rateOfChangeAlert: 40, // % per hour
+		normalRange: [30, 70]
+	},
+	light: {
+		min: 0,
+		max: 100000,
+		rateOfChangeWarning: 20000, // lux per hour
+		rateOfChangeAlert: 50000, // lux per hour
+		normalRange: [500, 10000]
+	},
+	co2: {
+		min: 300,
+		max: 5000,
+		rateOfChangeWarning: 500, // ppm per hour
+		rateOfChangeAlert: 1000, // ppm per hour
+		normalRange: [400, 1200]
+	},
+	'dew-point': {
+		min: -20,
+		max: 30,
+		rateOfChangeWarning: 5, // °C per hour
+		rateOfChangeAlert: 10, // °C per hour
+		normalRange: [0, 25]
+	},
+	'soil-temperature': {
+		min: 0,
+		max: 40,
+		rateOfChangeWarning: 3, // °C per hour
+		rateOfChangeAlert: 6, // °C per hour
+		normalRange: [10, 30]
+	},
+	battery: {
+		min: 20,
+		max: 100,
+		rateOfChangeWarning: 10, // % per hour
+		rateOfChangeAlert: 25, // % per hour
+		normalRange: [40, 100]
+	},
+	signal: {
+		min: 15,
+		max: 100,
+		rateOfChangeWarning: 40, // % per hour
+		rateOfChangeAlert: 70, // % per hour
+		normalRange: [30, 100]
+	},
+	rainfall: {
+		min: 0,
+		max: 100,
+		rateOfChangeWarning: 30, // mm per hour
+		rateOfChangeAlert: 60, // mm per hour
+		normalRange: [0, 50]
+	}
+};
+
+// Source of the built-in thresholds
+export const DEFAULT_SOURCE: ThresholdSource = { profileId: null, name: 'Default', version: 0 };
+
+// Weight of each scope field in a profile's specificity; a location outranks
+// any combination of the others, a crop outranks a stage and a date range
+const SPECIFICITY = { location: 8, crop: 4, growthStage: 2, dates: 1 };
+
+let profiles: ThresholdProfile[] = [];
+let stages: CropStage[] = [];
+let loaded = false;
+
+export interface ResolvedThresholds {
+	thresholds: SensorThresholds;
+	source: ThresholdSource;
+}
+
+async function readAll<T>(storeName: 'thresholdProfiles' | 'cropStages'): Promise<T[]> {
+	const db = await openDatabase();
+	const store = db.transaction(storeName, 'readonly').objectStore(storeName);
+	return promisifyRequest(store.getAll());
+}
+
+/**
+ * Load the stored profiles and crop stages into memory
+ * Call before detecting anomalies; until then only the defaults apply.
+ * Later calls are no-ops unless reloading is forced.
+ */
+export async function loadThresholdProfiles(reload = false): Promise<void> {
+	if (loaded && !reload) return;
+
+	[profiles, stages] = await Promise.all([
+		readAll<ThresholdProfile>('thresholdProfiles'),
+		readAll<CropStage>('cropStages')
+	]);
+	loaded = true;
+}
+
+function inRange(timestamp: number, from?: number, to?: number): boolean {
+	return (from === undefined || timestamp >= from) && (to === undefined || timestamp <= to);
+}
+
+/**
+ * Crop stage at a location at a point in time, the latest started one if several overlap
+ */
+export function cropStageAt(location: string, timestamp: number): CropStage | null {
+	return stages
+		.filter((stage) => stage.location === location && inRange(timestamp, stage.from, stage.to))
+		.reduce<CropStage | null>(
+			(latest, stage) => (!latest || stage.from > latest.from ? stage : latest),
+			null
+		);
+}
+
+function specificity(profile: ThresholdProfile): number {
+	return (
+		(profile.location ? SPECIFICITY.location : 0) +
+		(profile.crop ? SPECIFICITY.crop : 0) +
+		(profile.growthStage ? SPECIFICITY.growthStage : 0) +
+		(profile.from !== undefined || profile.to !== undefined ? SPECIFICITY.dates : 0)
+	);
+}
+
+/**
+ * Thresholds a reading is checked against
+ * The most specific matching profile wins, the most recently saved among
+ * equals; without one the data type's defaults apply
+ * @returns The thresholds and their source, or null for a data type without any
+ */
+export function resolveThresholds(
+	reading: Pick<SensorReading, 'dataType' | 'location' | 'timestamp'>
+): ResolvedThresholds | null {
+	const stage = cropStageAt(reading.location, reading.timestamp);
+
+	const best = profiles
+		.filter(
+			(profile) =>
+				profile.dataType === reading.dataType &&
+				(!profile.location || profile.location === reading.location) &&
+				(!profile.crop || profile.crop === stage?.crop) &&
+				(!profile.growthStage || profile.growthStage === stage?.growthStage) &&
+				inRange(reading.timestamp, profile.from, profile.to)
+		)
+		.sort((a, b) => specificity(b) - specificity(a) || b.updatedAt - a.updatedAt)[0];
+
+	if (best) {
+		return {
+			thresholds: best.thresholds,
+			source: { profileId: best.id!, name: best.name, version: best.version }
+		};
+	}
+
+	const defaults = DEFAULT_THRESHOLDS[reading.dataType];
+	return defaults ? { thresholds: defaults, source: DEFAULT_SOURCE } : null;
+}
+
+/**
+ * Reject thresholds whose limits are out of order
+ */
+export function validateThresholds(thresholds: SensorThresholds): void {
+	const { min, max, normalRange, rateOfChangeWarning, rateOfChangeAlert } = thresholds;
+	const values = [min, max, ...normalRange, rateOfChangeWarning, rateOfChangeAlert];
+
+	if (values.some((value) => typeof value !== 'number' || !Number.isFinite(value))) {
+		throw new Error('Thresholds must be numbers');
+	}
+	if (!(min <= normalRange[0] && normalRange[0] <= normalRange[1] && normalRange[1] <= max)) {
+		throw new Error('Normal range must lie between the minimum and maximum');
+	}
+	if (rateOfChangeWarning < 0 || rateOfChangeWarning > rateOfChangeAlert) {
+		throw new Error('Rate of change warning must be between 0 and the alert level');
+	}
+}
+
+/**
+ * Stored profiles, by data type and name
+ */
+export async function getThresholdProfiles(): Promise<ThresholdProfile[]> {
+	await loadThresholdProfiles();
+	return [...profiles].sort(
+		(a, b) => a.dataType.localeCompare(b.dataType) || a.name.localeCompare(b.name)
+	);
+}
+
+/**
+ * Create a profile, or update the one with the draft's ID
+ * @returns The saved profile, with its new version
+ */
+export async function saveThresholdProfile(
+	draft: ThresholdProfileDraft
+): Promise<ThresholdProfile> {
+	if (!draft.name.trim()) {
+		throw new Error('Profile needs a name');
+	}
+	if (!draft.dataType) {
+		throw new Error('Profile needs a data type');
+	}
+	if (draft.from !== undefined && draft.to !== undefined && draft.from > draft.to) {
+		throw new Error('Profile ends before it starts');
+	}
+	validateThresholds(draft.thresholds);
+
+	await loadThresholdProfiles();
+	const existing =
+		draft.id === undefined ? undefined : profiles.find((profile) => profile.id === draft.id);
+	if (draft.id !== undefined && !existing) {
+		throw new Error(`Threshold profile ${draft.id} not found`);
+	}
+
+	// A new profile is given its ID by the store
+	const { id: profileId, ...fields } = draft;
+	const now = Date.now();
+	const profile: ThresholdProfile = {
+		...(profileId === undefined ? {} : { id: profileId }),
+		...fields,
+		name: draft.name.trim(),
+		version: (existing?.version ?? 0) + 1,
+		createdAt: existing?.createdAt ?? now,
+		updatedAt: now
+	};
+
+	// The profile and its version are written together, so every version in use is kept
+	const db = await openDatabase();
+	const transaction = db.transaction(['thresholdProfiles', 'thresholdVersions'], 'readwrite');
+	const id = await promisifyRequest(transaction.objectStore('thresholdProfiles').put(profile));
+	const saved = { ...profile, id: id as number };
+	transaction.objectStore('thresholdVersions').put(saved);
+	await transactionDone(transaction);
+
+	profiles = [...profiles.filter((stored) => stored.id !== saved.id), saved];
+	return saved;
+}
+
+/**
+ * Delete a profile; its past versions are kept for the reports that used them
+ */
+export async function deleteThresholdProfile(id: number): Promise<void> {
+	const db = await openDatabase();
+	const transaction = db.transaction('thresholdProfiles', 'readwrite');
+	transaction.objectStore('thresholdProfiles').delete(id);
+	await transactionDone(transaction);
+
+	profiles = profiles.filter((profile) => profile.id !== id);
+}
+
+/**
+ * Profile as it was at one version
+ */
+export async function getThresholdVersion(
+	profileId: number,
+	version: number
+): Promise<ThresholdProfile | null> {
+	const db = await openDatabase();
+	const store = db.transaction('thresholdVersions', 'readonly').objectStore('thresholdVersions');
+	return (await promisifyRequest(store.get([profileId, version]))) ?? null;
+}
+
+/**
+ * Every saved version of a profile, the latest first
+ */
+export async function getThresholdHistory(profileId: number): Promise<ThresholdProfile[]> {
+	const db = await openDatabase();
+	const store = db.transaction('thresholdVersions', 'readonly').objectStore('thresholdVersions');
+	const versions: ThresholdProfile[] = await promisifyRequest(store.index('id').getAll(profileId));
+	return versions.sort((a, b) => b.version - a.version);
+}
+
+/**
+ * Stored crop stages, by location and start
+ */
+export async function getCropStages(): Promise<CropStage[]> {
+	await loadThresholdProfiles();
+	return [...stages].sort((a, b) => a.location.localeCompare(b.location) || a.from - b.from);
+}
+
+/**
+ * Create a crop stage, or update the one with its ID
+ */
+export async function saveCropStage(stage: CropStage): Promise<CropStage> {
+	if (!stage.location.trim() || !stage.crop.trim() || !stage.growthStage.trim()) {
+		throw new Error('Crop stage needs a location, crop and growth stage');
+	}
+	if (stage.to !== undefined && stage.from > stage.to) {
+		throw new Error('Crop stage ends before it starts');
+	}
+
+	await loadThresholdProfiles();
+	const { id: stageId, ...fields } = stage;
+	const record: CropStage = stageId === undefined ? fields : stage;
+	const db = await openDatabase();
+	const transaction = db.transaction('cropStages', 'readwrite');
+	const id = await promisifyRequest(transaction.objectStore('cropStages').put(record));
+	await transactionDone(transaction);
+
+	const saved = { ...record, id: id as number };
+	stages = [...stages.filter((stored) => stored.id !== saved.id), saved];
+	return saved;
+}
+
+export async function deleteCropStage(id: number): Promise<void> {
+	const db = await openDatabase();
+	const transaction = db.transaction('cropStages', 'readwrite');
+	transaction.objectStore('cropStages').delete(id);
+	await transactionDone(transaction);
+
+	stages = stages.filter((stage) => stage.id !== id);
+}
@@ -0,0 +1,279 @@
+import { get, writable } from 'svelte/store';
+
+/**
+ * Unit registry for sensor values
+ * Readings are stored in one canonical unit per data type; the unit a device
+ * reported is kept in the payload as originalUnit. Values are converted back
+ * to the user's unit system only for display.
+ */
+
+export type UnitSystem = 'metric' | 'imperial';
+
+/**
+ * Linear conversion to the canonical unit: canonical = value * scale + offset
+ */
+interface UnitDefinition {
+	scale: number;
+	offset: number;
+}
+
+interface DataTypeUnits {
+	canonical: string;
+	units: Record<string, UnitDefinition>;
+	display: Record<UnitSystem, string>;
+}
+
+const IDENTITY: UnitDefinition = { scale: 1, offset: 0 };
+
+const TEMPERATURE_UNITS: Record<string, UnitDefinition> = {
+	'°C': IDENTITY,
+	'°F': { scale: 5 / 9, offset: (-32 * 5) / 9 },
+	K: { scale: 1, offset: -273.15 }
+};
+
+export const UNIT_REGISTRY: Record<string, DataTypeUnits> = {
+	temperature: {
+		canonical: '°C',
+		units: TEMPERATURE_UNITS,
+		display: { metric: '°C', imperial: '°F' }
+	},
+	humidity: {
+		canonical: '%',
+		units: { '%': IDENTITY },
+		display: { metric: '%', imperial: '%' }
+	},
+	'soil-moisture': {
+		canonical: '%',
+		units: { '%': IDENTITY },
+		display: { metric: '%', imperial: '%' }
+	},
+	light: {
+		canonical: 'lux',
+		units: { lux: IDENTITY, fc: { scale: 10.7639, offset: 0 } },
+		display: { metric: 'lux', imperial: 'fc' }
+	},
+	co2: {
+		canonical: 'ppm',
+		units: { ppm: IDENTITY },
+		display: { metric: 'ppm', imperial: 'ppm' }
+	},
+	rainfall: {
+		canonical: 'mm',
+		units: { mm: IDENTITY, in: { scale: 25.4, offset: 0 } },
+		display: { metric: 'mm', imperial: 'in' }
+	},
+	'soil-temperature': {
+		canonical: '°C',
+		units: TEMPERATURE_UNITS,
+		display: { metric: '°C', imperial: '°F' }
+	},
+	// Device health channels
+	battery: {
+		canonical: '%',
+		units: { '%': IDENTITY },
+		display: { metric: '%', imperial: '%' }
+	},
+	signal: {
+		canonical: '%',
+		units: { '%': IDENTITY },
+		display: { metric: '%', imperial: '%' }
+	},
+	// Derived metrics
+	vpd: {
+		canonical: 'kPa',
+		units: { kPa: IDENTITY },
+		display: { metric: 'kPa', imperial: 'kPa' }
+	},
+	'dew-point': {
+		canonical: '°C',
+		units: TEMPERATURE_UNITS,
+		display: { metric: '°C', imperial: '°F' }
+	},
+	gdd: {
+		canonical: '°C·d',
+		units: { '°C·d': IDENTITY, '°F·d': { scale: 5 / 9, offset: 0 } },
+		display: { metric: '°C·d', imperial: '°F·d' }
+	},
+	dli: {
+		canonical: 'mol/m²/d',
+		units: { 'mol/m²/d': IDENTITY },
+		display: { metric: 'mol/m²/d', imperial: 'mol/m²/d' }
+	},
+	'chill-hours': {
+		canonical: 'h',
+		units: { h: IDENTITY },
+		display: { metric: 'h', imperial: 'h' }
+	}
+};
+
+// Spellings devices send for registered units
+const UNIT_ALIASES: Record<string, string> = {
+	C: '°C',
+	celsius: '°C',
+	F: '°F',
+	fahrenheit: '°F',
+	kelvin: 'K',
+	'foot-candle': 'fc',
+	'ft-c': 'fc',
+	lx: 'lux'
+};
+
+const UNIT_SYSTEM_KEY = 'displayUnits';
+
+/**
+ * Unit system values are displayed in, persisted across sessions
+ */
+export const unitSystem = writable<UnitSystem>(
+	typeof localStorage !== 'undefined' && localStorage.getItem(UNIT_SYSTEM_KEY) === 'imperial'
+		? 'imperial'
+		: 'metric'
+);
+
+unitSystem.subscribe((system) => {
+	if (typeof localStorage !== 'undefined') {
+		localStorage.setItem(UNIT_SYSTEM_KEY, system);
+	}
+});
+
+function resolveUnit(dataType: string, unit: string): UnitDefinition | undefined {
+	const units = UNIT_REGISTRY[dataType]?.units;
+	return units?.[unit] ?? units?.[UNIT_ALIASES[unit] ?? UNIT_ALIASES[unit.toLowerCase()]];
+}
+
+/**
+ * Whether a unit is registered for a data type
+ */
+export function isKnownUnit(dataType: string, unit: string): boolean {
+	return resolveUnit(dataType, unit) !== undefined;
+}
+
+/**
+ * Canonical unit of a data type, or undefined if it has no registered units
+ */
+export function getCanonicalUnit(dataType: string): string | undefined {
+	return UNIT_REGISTRY[dataType]?.canonical;
+}
+
+/**
+ * Convert a value to its data type's canonical unit
+ * @returns The converted value, or null if the unit isn't registered for the type
+ */
+export function toCanonical(dataType: string, value: number, unit: string): number | null {
+	const definition = resolveUnit(dataType, unit);
+	return definition ? value * definition.scale + definition.offset : null;
+}
+
+/**
+ * Normalize a reading payload to the canonical unit
+ * Numeric value fields are converted and the reported unit is kept as originalUnit.
+ * Payloads without a unit, or with one the registry doesn't know, are returned as they are.
+ * @param dataType Reading data type
+ * @param payload Parsed reading data
+ * @returns The normalized payload
+ */
+export function normalizePayload(
+	dataType: string,
+	payload: Record<string, unknown>
+): Record<string, unknown> {
+	const canonical = getCanonicalUnit(dataType);
+	const unit = payload.unit;
+	if (!canonical || typeof unit !== 'string' || unit === canonical) return payload;
+
+	const definition = resolveUnit(dataType, unit);
+	if (!definition) return payload;
+
+	const normalized: Record<string, unknown> = { ...payload, unit: canonical, originalUnit: unit };
+	for (const field of ['value', dataType]) {
+		if (typeof payload[field] === 'number') {
+			normalized[field] = (payload[field] as number) * definition.scale + definition.offset;
+		}
+	}
+	return normalized;
+}
+
+/**
+ * Normalize a reading's data to the canonical unit, keeping its string or object form
+ */
+export function normalizeReadingData<T extends { dataType: string; data: string | object }>(
+	reading: T
+): T {
+	if (typeof reading.data !== 'string') {
+		return {
+			...reading,
+			data: normalizePayload(reading.dataType, reading.data as Record<string, unknown>)
+		};
+	}
+
+	try {
+		const payload = JSON.parse(reading.data);
+		if (!payload || typeof payload !== 'object') return reading;
+
+		const normalized = normalizePayload(reading.dataType, payload);
+		return normalized === payload ? reading : { ...reading, data: JSON.stringify(normalized) };
+	} catch {
+		// Not JSON; validation reports it
+		return reading;
+	}
+}
+
+/**
+ * Unit a data type is displayed in
+ */
+export function getDisplayUnit(dataType: string, system: UnitSystem = get(unitSystem)): string {
+	return UNIT_REGISTRY[dataType]?.display[system] ?? '';
+}
+
+/**
+ * Convert a canonical value to the display unit
+ */
+export function toDisplay(
+	dataType: string,
+	value: number,
+	system: UnitSystem = get(unitSystem)
+): number {
+	const definition = resolveUnit(dataType, getDisplayUnit(dataType, system));
+	return definition ? (value - definition.offset) / definition.scale : value;
+}
+
+/**
+ * Convert a canonical difference or rate, which ignores the unit offset
+ */
+export function toDisplayDelta(
+	dataType: string,
+	delta: number,
+	system: UnitSystem = get(unitSystem)
+): number {
+	const definition = resolveUnit(dataType, getDisplayUnit(dataType, system));
+	return definition ? delta / definition.scale : delta;
+}
+
+/**
+ * Format a canonical value with its display unit, e.g. "77.0 °F"
+ */
+export function formatValue(
+	dataType: string,
+	value: number,
+	system: UnitSystem = get(unitSystem),
+	digits = 1
+): string {
+	const unit = getDisplayUnit(dataType, system);
+	const display = toDisplay(dataType, value, system).toFixed(digits);
+	return unit ? `${display} ${unit}` : display;
+}
+
+/**
+ * Format a reading's parsed value and unit for display
+ * Registered units are converted to the user's unit system; anything else is shown as reported
+ */
+export function formatReading(
+	dataType: string,
+	parsedData: { value?: unknown; unit?: unknown } | null | undefined,
+	system: UnitSystem = get(unitSystem)
+): string {
+	const { value, unit } = parsedData ?? {};
+	if (typeof value === 'number') {
+		const canonical = typeof unit === 'string' ? toCanonical(dataType, value, unit) : null;
+		if (canonical !== null) return formatValue(dataType, canonical, system);
+	}
+	return `${value ?? 'N/A'} ${unit ?? ''}`.trim();
+}
@@ -1,5 +1,6 @@
 import { ethers } from 'ethers';
 import type { SensorReading } from '$lib/types';
+import { isKnownUnit, normalizePayload } from './units';
 
 interface ValidationRule {
   field: string;
@@ -21,7 +22,7 @@ export class DataValidator {
       },
       {
         field: 'unit',
-        validator: (value) => ['°C', '°F', 'K'].includes(value),
+        validator: (value) => typeof value === 'string' && isKnownUnit('temperature', value),
         errorMessage: 'Invalid temperature unit'
       }
     ],
@@ -64,9 +65,11 @@ export class DataValidator {
       return { isValid: false, errors };
     }
     
-    // Apply schema validation
+    // Apply schema validation; ranges are in the canonical unit
     const schema = this.schemas[reading.dataType];
     if (schema) {
+      parsedData = normalizePayload(reading.dataType, parsedData);
+
       for (const rule of schema) {
         const value = parsedData[rule.field];
         if (!rule.validator(value)) {
@@ -1,6 +1,9 @@
 import { ethers, BrowserProvider, Contract } from 'ethers';
-import type { NetworkConfig, FormattedSensorData } from '$lib/types';
+import type {
+  NetworkConfig, FormattedSensorData, SensorData, StoredRecordReceipt, BatchSubmission
+} from '$lib/types';
 import abi from '$lib/blockchain/contract-abi.json';
+import { hashRecord } from '$lib/services/merkleTree';
 import { trigger } from './toastStore.svelte';
 import { writable, derived, type Writable } from 'svelte/store';
 
@@ -24,6 +27,9 @@ export const NETWORKS: Record<number, NetworkConfig> = {
 
 const address = (await import('$lib/blockchain/contract-address.json')).address;
 
+// Contract reads in flight at once when fetching many records
+const RECORD_READ_CONCURRENCY = 8;
+
 interface State {
   connected: boolean;
   loading:  boolean;
@@ -140,26 +146,129 @@ function createStore() {
     } catch {}
   }
 
+  // Find the parsed events with the given name in a transaction receipt, in log order
+  function findEvents(contract: Contract, receipt: ethers.TransactionReceipt, name: string) {
+    const events: ethers.LogDescription[] = [];
+    for (const log of receipt.logs) {
+      try {
+        const parsed = contract.interface.parseLog(log);
+        if (parsed?.name === name) events.push(parsed);
+      } catch {
+        // Log emitted by another contract
+      }
+    }
+    return events;
+  }
+
+  // Receipt of a DataStored event; the location is not in the event, so the caller supplies it
+  function toRecordReceipt(
+    event: ethers.LogDescription, txHash: string, location: string
+  ): StoredRecordReceipt {
+    const [recordId, deviceId, timestamp, dataType, data] = event.args;
+    return {
+      recordId: Number(recordId),
+      txHash,
+      leaf: hashRecord({ deviceId, timestamp: Number(timestamp), data, dataType, location })
+    };
+  }
+
+  // Find the first parsed event with the given name in a transaction receipt
+  function findEvent(contract: Contract, receipt: ethers.TransactionReceipt, name: string) {
+    return findEvents(contract, receipt, name)[0] ?? null;
+  }
+
   //
   // === Contract wrappers ===
   //
 
+  // Store one reading without toasting; errors are thrown for the caller to classify
+  async function submitData(
+    deviceId: string, data: string, dataType: string, location: string
+  ): Promise<StoredRecordReceipt> {
+    const { contract } = snapshot();
+    if (!contract) throw new Error('Not connected');
+    const tx = await contract.storeData(deviceId, data, dataType, location);
+    const rec = await tx.wait();
+    const event = findEvent(contract, rec, 'DataStored');
+    if (!event) throw new Error('DataStored event missing from receipt');
+    return toRecordReceipt(event, rec.hash, location);
+  }
+
   async function storeData(
     deviceId: string, data: string, dataType: string, location: string
-  ): Promise<number> {
+  ): Promise<StoredRecordReceipt | null> {
     update(s => ({ ...s, loading: true }));
     try {
-      const { contract } = snapshot();
-      if (!contract) throw new Error('Not connected');
-      const tx = await contract.storeData(deviceId, data, dataType, location);
-      const rec = await tx.wait();
-      const id  = rec.events?.find(e => e.event === 'DataStored')?.args?.[0];
+      const receipt = await submitData(deviceId, data, dataType, location);
       trigger({ message: 'Data stored on-chain', background:'preset-filled-success' });
-      return Number(id);
+      return receipt;
     } catch (err) {
       const msg = (err as Error).message || 'Error storing data';
       trigger({ message: msg, background:'preset-filled-error' });
-      return -1;
+      return null;
+    } finally {
+      update(s => ({ ...s, loading:false }));
+    }
+  }
+
+  // Store several readings in one transaction without toasting; receipts follow input order
+  async function submitDataBatch(readings: SensorData[]): Promise<BatchSubmission> {
+    const { contract } = snapshot();
+    if (!contract) throw new Error('Not connected');
+    const tx = await contract.storeDataBatch(
+      readings.map(r => r.deviceId),
+      readings.map(r => r.data),
+      readings.map(r => r.dataType),
+      readings.map(r => r.location)
+    );
+    const rec = await tx.wait();
+    const events = findEvents(contract, rec, 'DataStored');
+    if (events.length !== readings.length) {
+      throw new Error(`Expected ${readings.length} DataStored events, found ${events.length}`);
+    }
+    return {
+      receipts: events.map((event, i) => toRecordReceipt(event, rec.hash, readings[i].location)),
+      fee: rec.fee
+    };
+  }
+
+  // Gas a storeDataBatch call would use, without sending it
+  async function estimateDataBatchGas(readings: SensorData[]): Promise<bigint> {
+    const { contract } = snapshot();
+    if (!contract) throw new Error('Not connected');
+    return contract.storeDataBatch.estimateGas(
+      readings.map(r => r.deviceId),
+      readings.map(r => r.data),
+      readings.map(r => r.dataType),
+      readings.map(r => r.location)
+    );
+  }
+
+  // Highest fee per gas the next transaction may pay, in wei
+  async function getFeePerGas(): Promise<bigint> {
+    const { provider } = snapshot();
+    if (!provider) throw new Error('Not connected');
+    const fees = await provider.getFeeData();
+    return fees.maxFeePerGas ?? fees.gasPrice ?? 0n;
+  }
+
+  // Native balance of the connected account, in wei
+  async function getBalance(): Promise<bigint> {
+    const { provider, account } = snapshot();
+    if (!provider || !account) throw new Error('Not connected');
+    return provider.getBalance(account);
+  }
+
+  async function storeDataBatch(readings: SensorData[]): Promise<number[] | null> {
+    update(s => ({ ...s, loading: true }));
+    try {
+      const { receipts } = await submitDataBatch(readings);
+      trigger({ message: `${receipts.length} readings stored on-chain`, background:'preset-filled-success' });
+      return receipts.map(r => r.recordId);
+    } catch (err) {
+      const msg = (err as Error).message || 'Error storing data batch';
+      trigger({ message: msg, background:'preset-filled-error' });
+      return null;
     } finally {
       update(s => ({ ...s, loading:false }));
     }
@@ -174,7 +283,7 @@ function createStore() {
       if (!contract) throw new Error('Not connected');
       const tx = await contract.createBatch(fromIndex, toIndex, merkleRoot, description);
       const rec = await tx.wait();
-      const batchId = rec.events?.find(e => e.event === 'BatchCreated')?.args?.[0];
+      const batchId = findEvent(contract, rec, 'BatchCreated')?.args[0];
       trigger({ message: `Batch ${batchId} created`, background:'preset-filled-success' });
       return String(batchId);
     } catch (err) {
@@ -207,6 +316,25 @@ function createStore() {
     };
   }
 
+  // Raw records by ID, with block timestamps in seconds as hashed on-chain;
+  // read a few at a time so long ranges don't flood the RPC provider
+  async function getRecords(ids: number[]): Promise<SensorData[]> {
+    const { contract } = snapshot();
+    if (!contract) throw new Error('Not connected');
+    const rows: ethers.Result[] = [];
+    for (let i = 0; i < ids.length; i += RECORD_READ_CONCURRENCY) {
+      const slice = ids.slice(i, i + RECORD_READ_CONCURRENCY);
+      rows.push(...await Promise.all(slice.map(id => contract.getData(id))));
+    }
+    return rows.map(res => ({
+      deviceId:  res[0],
+      timestamp: Number(res[1]),
+      data:      res[2],
+      dataType:  res[3],
+      location:  res[4]
+    }));
+  }
+
   async function getRecordCount(): Promise<number> {
     const { contract } = snapshot();
     if (!contract) throw new Error('Not connected');
@@ -282,10 +410,17 @@ function createStore() {
     subscribe,
     connectWallet,
     disconnectWallet,
+    submitData,
     storeData,
+    submitDataBatch,
+    storeDataBatch,
+    estimateDataBatchGas,
+    getFeePerGas,
+    getBalance,
     createBatch,
     verifyRecord,
     getData,
+    getRecords,
     getRecordCount,
     getDeviceRecords,
     refreshRoles,
@@ -21,6 +21,117 @@ export interface SensorReading {
   location: string;
 }
 
+/**
+ * Sync state of a reading in the offline outbox
+ */
+export type OutboxState = 'pending' | 'in-flight' | 'confirmed' | 'failed' | 'dead-letter';
+
+/**
+ * Sensor reading queued in the offline outbox
+ */
+export interface QueuedSensorReading extends SensorReading {
+  id: number;
+  syncState: OutboxState;
+  queuedAt: number;
+  recordId?: number;
+  txHash?: string;
+  // Merkle leaf of the on-chain record, so history can be compacted provably
+  leaf?: string;
+  syncedAt?: number;
+  attempts?: number;
+  errorCode?: string;
+  lastError?: string;
+}
+
+/**
+ * Reading that exhausted its sync attempts or failed permanently
+ */
+export interface DeadLetter {
+  readingId: number;
+  deviceId: string;
+  dataType: string;
+  timestamp: number;
+  errorCode: string;
+  error: string;
+  attempts: number;
+  deadLetteredAt: number;
+}
+
+/**
+ * Receipt of a record stored on-chain
+ */
+export interface StoredRecordReceipt {
+  recordId: number;
+  txHash: string;
+  leaf: string;
+}
+
+/**
+ * Result of storing several readings in one transaction
+ */
+export interface BatchSubmission {
+  receipts: StoredRecordReceipt[];
+  fee: bigint;
+}
+
+/**
+ * Estimated cost of syncing the pending outbox, amounts in wei
+ */
+export interface SyncCostEstimate {
+  chunks: number;
+  unestimated: number;
+  gas: bigint;
+  feePerGas: bigint;
+  totalCost: bigint;
+  balance: bigint;
+  estimatedAt: number;
+}
+
+/**
+ * Sync progress of one device's readings
+ */
+export interface DeviceSyncProgress {
+  deviceId: string;
+  total: number;
+  done: number;
+  deadLettered: number;
+  chunks: number;
+  chunksDone: number;
+  txHashes: string[];
+}
+
+/**
+ * Progress of a sync job
+ */
+export interface SyncProgress {
+  startedAt: number;
+  total: number;
+  done: number;
+  deadLettered: number;
+  current: { deviceId: string; chunk: number } | null;
+  devices: DeviceSyncProgress[];
+}
+
+/**
+ * Progress event emitted after each chunk of a sync job
+ */
+export interface SyncProgressEvent {
+  deviceId: string;
+  chunk: number;
+  chunks: number;
+  done: number;
+  total: number;
+  txHashes: string[];
+}
+
+/**
+ * Limit on what auto-sync may spend per session or per day, in wei
+ */
+export interface SpendingCap {
+  amount: bigint;
+  period: 'session' | 'daily';
+}
+
 /**
  * Event data emitted by the contract
  */
@@ -138,8 +249,12 @@ export interface CropImage {
   compressionRatio: number;
   preview: string;
   notes: string;
-  data: Blob;
+  // Null once evicted to free space; the preview is then a thumbnail
+  data: Blob | null;
   id?: number;
+  // Set once the image has a copy off the device, which makes it evictable
+  syncedAt?: number;
+  evictedAt?: number;
 }
 
 /**
@@ -153,6 +268,54 @@ export interface SensorThresholds {
   normalRange: [number, number];
 }
 
+/**
+ * Crop growing at a location, at one growth stage over a span of dates
+ */
+export interface CropStage {
+  id?: number;
+  location: string;
+  crop: string;
+  growthStage: string;
+  // Start and end of the stage, inclusive; no end while it lasts
+  from: number;
+  to?: number;
+}
+
+/**
+ * Thresholds of a data type, scoped to where and when they apply
+ * Scope fields left unset match any reading
+ */
+export interface ThresholdProfile {
+  id?: number;
+  name: string;
+  dataType: string;
+  location?: string;
+  crop?: string;
+  growthStage?: string;
+  from?: number;
+  to?: number;
+  thresholds: SensorThresholds;
+  // Raised on every save; each version is kept so past reports can be traced to it
+  version: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Profile fields an edit sets; the ID, version and times are kept by the service
+ */
+export type ThresholdProfileDraft = Omit<ThresholdProfile, 'version' | 'createdAt' | 'updatedAt'>;
+
+/**
+ * Thresholds a report was checked against: a profile version, or the built-in
+ * defaults when no profile matched
+ */
+export interface ThresholdSource {
+  profileId: number | null;
+  name: string;
+  version: number;
+}
+
 /**
  * Anomaly detail
  */
@@ -161,6 +324,52 @@ export interface AnomalyDetail {
   message: string;
   threshold?: number;
   actual: any;
+  // Standard deviations from the baseline, for the statistical detectors
+  score?: number;
+}
+
+/**
+ * Detectors that check a reading against the baseline learned for its device
+ * stream: rolling z-score, EWMA control chart, or the profile of each hour of the day
+ */
+export type BaselineDetector = 'zscore' | 'ewma' | 'diurnal';
+
+/**
+ * Rules that check several data types at one location together
+ */
+export type CorrelationRule =
+  | 'frost-risk'
+  | 'disease-pressure'
+  | 'irrigation-fault'
+  | 'humidity-coupling';
+
+/**
+ * Diagnostics of a device's hardware rather than its environment
+ */
+export type HealthCheck =
+  | 'stuck-value'
+  | 'neighbour-drift'
+  | 'battery'
+  | 'signal-trend'
+  | 'clock'
+  | 'duplicates';
+
+/**
+ * Detector that raised an anomaly report: the static thresholds, a baseline
+ * detector, a cross-sensor rule or a health diagnostic
+ */
+export type AnomalyDetector = 'threshold' | BaselineDetector | CorrelationRule | HealthCheck;
+
+/**
+ * Health diagnostics of one device over its latest stored readings
+ */
+export interface DeviceHealth {
+  deviceId: string;
+  // 100 for a healthy device, lowered by each diagnostic that found a problem
+  score: number;
+  reports: AnomalyReport[];
+  readingCount: number;
+  checkedAt: number;
 }
 
 /**
@@ -174,8 +383,48 @@ export interface AnomalyReport {
   value: number;
   anomalies: AnomalyDetail[];
   severity: 'info' | 'warning' | 'error';
+  detector: AnomalyDetector;
+  // Set on threshold reports
+  thresholds?: ThresholdSource;
+}
+
+/**
+ * Review state of an anomaly incident
+ */
+export type IncidentStatus = 'open' | 'acknowledged' | 'resolved' | 'false-positive';
+
+/**
+ * One ongoing condition on a device stream, raised by one detector
+ * Repeated reports of the condition are merged into it
+ */
+export interface AnomalyIncident {
+  id?: number;
+  deviceId: string;
+  dataType: string;
+  detector: AnomalyDetector;
+  location: string;
+  status: IncidentStatus;
+  // Worst severity reported
+  severity: AnomalyReport['severity'];
+  // Reading timestamps of the earliest and latest merged reports
+  firstSeen: number;
+  lastSeen: number;
+  reportCount: number;
+  latest: AnomalyReport;
+  assignee: string;
+  notes: string;
+  createdAt: number;
+  updatedAt: number;
+  acknowledgedAt?: number;
+  // Set when resolved or marked a false positive
+  closedAt?: number;
 }
 
+/**
+ * Fields of an incident a reviewer can change
+ */
+export type IncidentUpdate = Partial<Pick<AnomalyIncident, 'status' | 'assignee' | 'notes'>>;
+
 /**
  * Local data aggregate
  */
@@ -192,6 +441,246 @@ export interface LocalDataAggregate {
   standardDeviation: number;
   anomalyCount: number;
   merkleRoot: string;
+  percentiles?: Percentiles;
+  histogram?: HistogramBin[];
+  // Readings without a numeric value
+  missingCount?: number;
+  timeWeightedAverage?: number;
+  // Accumulator the statistics came from, so aggregates can be merged
+  stats?: StatsState;
+  // Set on rollups of compacted history; the root covers these records in order
+  resolution?: RollupResolution;
+  recordIds?: number[];
+  // Reading fields the aggregate was grouped by; deviceId, dataType and location
+  // outside them hold the group's shared value, or '*' when it mixes several
+  groupBy?: AggregationDimension[];
+  location?: string;
+  // Set on time buckets; the timestamps are the bucket's bounds in that time zone
+  bucketSize?: BucketSize;
+  timeZone?: string;
+  // Readings the stream's sampling interval calls for over the elapsed part of
+  // the bucket, and the share of them that arrived
+  expectedCount?: number;
+  coverage?: number;
+  id?: number;
+}
+
+export type RollupResolution = 'hour' | 'day';
+
+export interface Percentiles {
+  p5: number;
+  p25: number;
+  p75: number;
+  p95: number;
+}
+
+export interface HistogramBin {
+  from: number;
+  to: number;
+  count: number;
+}
+
+/**
+ * Mergeable accumulator of sensor values
+ */
+export interface StatsState {
+  count: number;
+  missing: number;
+  // Welford running mean and sum of squared deviations
+  mean: number;
+  m2: number;
+  min: number;
+  max: number;
+  // t-digest centroids as [mean, weight], sorted by mean
+  centroids: Array<[number, number]>;
+  firstTimestamp: number | null;
+  lastTimestamp: number | null;
+  lastValue: number;
+  // Integral of the held value over time, and the time it covers
+  weightedSum: number;
+  weightedDuration: number;
+}
+
+/**
+ * Summary of a statistics accumulator
+ */
+export interface SensorStatistics {
+  count: number;
+  missing: number;
+  min: number;
+  max: number;
+  average: number;
+  median: number;
+  standardDeviation: number;
+  percentiles: Percentiles;
+  histogram: HistogramBin[];
+  timeWeightedAverage: number;
+}
+
+/**
+ * Reading field aggregates can be grouped by
+ */
+export type AggregationDimension = 'deviceId' | 'dataType' | 'location';
+
+/**
+ * Window of a time-bucketed aggregate; days and weeks follow the wall clock
+ * of a time zone, weeks start on Monday
+ */
+export type BucketSize = '15m' | 'hour' | 'day' | 'week';
+
+/**
+ * Outage in a device stream, between the readings either side of it
+ */
+export interface DataGap {
+  start: number;
+  end: number;
+  missingCount: number;
+}
+
+/**
+ * Sampling interval and detected gaps of one device and data type
+ */
+export interface StreamGaps {
+  deviceId: string;
+  dataType: string;
+  // Median time between readings, in milliseconds
+  expectedInterval: number;
+  gaps: DataGap[];
+  updatedAt: number;
+}
+
+/**
+ * Exponentially weighted mean and variance
+ */
+export interface BaselineMoments {
+  count: number;
+  mean: number;
+  variance: number;
+}
+
+/**
+ * Baseline learned for one device and data type
+ */
+export interface SensorBaseline {
+  deviceId: string;
+  dataType: string;
+  // Latest readings as [timestamp, value], in time order
+  window: Array<[number, number]>;
+  // Moments of the values in each local hour of the day, indexed by hour
+  hourly: BaselineMoments[];
+  // EWMA of the differences from the hourly profile, null until the profile is trained
+  ewma: number | null;
+  // Moments of those differences
+  residuals: BaselineMoments;
+  updatedAt: number;
+}
+
+/**
+ * Series computed from raw readings and stored as time buckets under its own
+ * data type: vapour pressure deficit, dew point, growing degree days, daily
+ * light integral and chill hours
+ */
+export type DerivedMetric = 'vpd' | 'dew-point' | 'gdd' | 'dli' | 'chill-hours';
+
+/**
+ * Parameters of the derived metrics; temperatures in °C, season starts as MM-DD
+ */
+export interface DerivedMetricSettings {
+  // Degree days accumulate above the base; temperatures above the cap count as the cap
+  gddBaseTemperature: number;
+  gddCapTemperature: number;
+  gddSeasonStart: string;
+  // Time within this range counts towards chill hours
+  chillMinTemperature: number;
+  chillMaxTemperature: number;
+  chillSeasonStart: string;
+}
+
+/**
+ * How long confirmed raw readings are kept before being compacted into rollups
+ */
+export interface RetentionPolicy {
+  enabled: boolean;
+  retainDays: number;
+  resolution: RollupResolution;
+}
+
+/**
+ * Outcome of one retention run
+ */
+export interface RetentionReport {
+  runAt: number;
+  compacted: number;
+  rollups: number;
+  // Confirmed readings kept raw because they predate stored leaves
+  skipped: number;
+  bytesFreed: number;
+}
+
+/**
+ * Approximate size of one local store
+ */
+export interface StoreUsage {
+  count: number;
+  bytes: number;
+}
+
+/**
+ * Browser storage usage, overall and by store
+ */
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+  persisted: boolean;
+  stores: Record<'sensorReadings' | 'dataAggregates' | 'cropImages', StoreUsage>;
+}
+
+/**
+ * Outcome of freeing space when storage nears its quota
+ */
+export interface EvictionReport {
+  runAt: number;
+  imagesEvicted: number;
+  readingsCompacted: number;
+  bytesFreed: number;
+}
+
+/**
+ * Time range, order and paging shared by the local store queries
+ */
+export interface RangeQuery {
+  fromTimestamp?: number;
+  toTimestamp?: number;
+  order?: 'asc' | 'desc';
+  limit?: number;
+  // Token from the previous page's nextPageToken
+  pageToken?: string;
+}
+
+export interface SensorDataQuery extends RangeQuery {
+  deviceId?: string;
+  dataType?: string;
+  location?: string;
+  syncState?: OutboxState;
+}
+
+export interface AggregateQuery extends RangeQuery {
+  deviceId?: string;
+  dataType?: string;
+  bucketSize?: BucketSize;
+}
+
+export interface ImageQuery extends RangeQuery {
+  deviceId?: string;
+}
+
+/**
+ * One page of query results
+ */
+export interface QueryPage<T> {
+  items: T[];
+  // Null once the range is exhausted
+  nextPageToken: string | null;
 }
 
 /**
@@ -236,5 +725,5 @@ export interface CropImage {
   width: number;
   height: number;
   notes: string;
-  data: Blob;
+  data: Blob | null;
 }
\ No newline at end of file
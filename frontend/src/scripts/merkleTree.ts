@@ -1,54 +1,34 @@
-// backend/scripts/merkleTree.ts
+// scripts/merkleTree.ts
 import { ethers } from "ethers";
-import { MerkleTree } from "merkletreejs";
-import keccak256 from "keccak256";
+import {
+  generateMerkleTree as generateCanonicalTree,
+  hashRecord,
+  verifyProof as verifyCanonicalProof
+} from "../lib/services/merkleTree.js"; // Same leaf encoding and tree as the app
 
 interface SensorDataRecord {
   deviceId: string;
-  timestamp: number;
+  timestamp: number; // Block timestamp in seconds, as returned by getData
   data: string;
   dataType: string;
   location: string;
 }
 
-export function generateMerkleTree(records: SensorDataRecord[]): { 
-  merkleTree: MerkleTree;
+export function generateMerkleTree(records: SensorDataRecord[]): {
   merkleRoot: string;
-  leaves: Buffer[];
+  leaves: string[];
   proofs: { [index: number]: string[] }; // ✅ string[] per leaf, not string[][]
 } {
-  // Generate leaf nodes by hashing each record
-  const leaves = records.map((record) => {
-    const hash = ethers.solidityPackedKeccak256(
-      ["string", "uint256", "string", "string", "string"],
-      [record.deviceId, record.timestamp, record.data, record.dataType, record.location]
-    );
-    return Buffer.from(hash.slice(2), 'hex');
-  });
-
-  const merkleTree = new MerkleTree(leaves, keccak256, { sortPairs: true });
-  const merkleRoot = merkleTree.getHexRoot();
-
-  const proofs: { [index: number]: string[] } = {};
-  leaves.forEach((leaf, index) => {
-    proofs[index] = merkleTree.getHexProof(leaf).map(p => p.toString());
-  });
-
-  return {
-    merkleTree,
-    merkleRoot,
-    leaves,
-    proofs
-  };
+  return generateCanonicalTree(records);
 }
 
 
 export function verifyProof(
-  leaf: Buffer, 
-  proof: string[], 
+  record: SensorDataRecord,
+  proof: string[],
   root: string
 ): boolean {
-  return MerkleTree.verify(proof, leaf, root, keccak256, { sortPairs: true });
+  return verifyCanonicalProof(hashRecord(record), proof, root);
 }
 
 // Example usage for scripts
@@ -60,21 +40,21 @@ export async function batchRecords(
 ): Promise<string> {
   // Fetch records from the contract
   const records: SensorDataRecord[] = [];
-  
+
   for (let i = fromIndex; i <= toIndex; i++) {
     const record = await contract.getData(i);
     records.push({
       deviceId: record[0],
-      timestamp: record[1].toNumber(),
+      timestamp: Number(record[1]),
       data: record[2],
       dataType: record[3],
       location: record[4]
     });
   }
-  
+
   // Generate Merkle tree
   const { merkleRoot } = generateMerkleTree(records);
-  
+
   // Create batch on the contract
   const tx = await contract.createBatch(
     fromIndex,
@@ -82,9 +62,9 @@ export async function batchRecords(
     merkleRoot,
     description
   );
-  
-  const receipt = await tx.wait();
+
+  await tx.wait();
   console.log(`Batch created with root: ${merkleRoot}`);
-  
+
   return merkleRoot;
-}
\ No newline at end of file
+}
@@ -0,0 +1,118 @@
+/// <reference types="@sveltejs/kit" />
+/// <reference no-default-lib="true"/>
+/// <reference lib="esnext" />
+/// <reference lib="webworker" />
+
+import { build, files, version } from '$service-worker';
+import {
+	OUTBOX_FLUSH_MESSAGE,
+	OUTBOX_SYNC_TAG,
+	type OutboxFlushReply,
+	type OutboxFlushRequest
+} from '$lib/services/backgroundSync';
+
+const sw = self as unknown as ServiceWorkerGlobalScope;
+
+// Background Sync is not in the TypeScript DOM library yet
+interface SyncEvent extends ExtendableEvent {
+	readonly tag: string;
+}
+
+const CACHE = `yieldsyncx-${version}`;
+
+// App shell: the built app and everything in static/
+const ASSETS = [...build, ...files];
+
+// Pages that must open offline; the others are cached once visited
+const OFFLINE_PAGES = ['/', '/devices', '/imagery'];
+
+// Browsers end a sync event after a few minutes; a tab that has not answered
+// by then counts as not flushed
+const FLUSH_TIMEOUT = 4 * 60 * 1000;
+
+sw.addEventListener('install', (event) => {
+	event.waitUntil(caches.open(CACHE).then((cache) => cache.addAll([...ASSETS, ...OFFLINE_PAGES])));
+});
+
+sw.addEventListener('activate', (event) => {
+	event.waitUntil(
+		(async () => {
+			// Drop the caches of previous versions
+			for (const key of await caches.keys()) {
+				if (key !== CACHE) await caches.delete(key);
+			}
+			// Control pages opened before the worker installed, so they work offline too
+			await sw.clients.claim();
+		})()
+	);
+});
+
+sw.addEventListener('fetch', (event) => {
+	if (event.request.method !== 'GET') return;
+
+	// Wallet RPC, fonts and other origins go straight to the network
+	const url = new URL(event.request.url);
+	if (url.origin !== sw.location.origin) return;
+
+	event.respondWith(respond(event.request, url));
+});
+
+/**
+ * Serve the app shell from the cache and everything else from the network,
+ * falling back to the last cached copy when offline
+ */
+async function respond(request: Request, url: URL): Promise<Response> {
+	const cache = await caches.open(CACHE);
+
+	if (ASSETS.includes(url.pathname)) {
+		const cached = await cache.match(url.pathname);
+		if (cached) return cached;
+	}
+
+	try {
+		const response = await fetch(request);
+		if (response.status === 200 && response.type === 'basic') {
+			cache.put(request, response.clone());
+		}
+		return response;
+	} catch (error) {
+		const cached = await cache.match(request, { ignoreSearch: request.mode === 'navigate' });
+		if (cached) return cached;
+		throw error;
+	}
+}
+
+sw.addEventListener('sync', (event) => {
+	const syncEvent = event as SyncEvent;
+	if (syncEvent.tag === OUTBOX_SYNC_TAG) {
+		syncEvent.waitUntil(flushOutbox());
+	}
+});
+
+/**
+ * Have the open tabs flush the sensor outbox
+ * Rejects when none did, so the browser retries the sync later
+ */
+async function flushOutbox(): Promise<void> {
+	const clients = await sw.clients.matchAll({ type: 'window', includeUncontrolled: true });
+	const replies = await Promise.all(clients.map(askToFlush));
+
+	if (!replies.includes(true)) {
+		throw new Error('No open tab could flush the sensor outbox');
+	}
+}
+
+function askToFlush(client: WindowClient): Promise<boolean> {
+	return new Promise((resolve) => {
+		const channel = new MessageChannel();
+		const timer = setTimeout(() => resolve(false), FLUSH_TIMEOUT);
+
+		channel.port1.onmessage = (event: MessageEvent<OutboxFlushReply>) => {
+			clearTimeout(timer);
+			resolve(event.data.flushed);
+		};
+
+		const request: OutboxFlushRequest = { type: OUTBOX_FLUSH_MESSAGE };
+		client.postMessage(request, [channel.port2]);
+	});
+}
@@ -1,8 +1,9 @@
 import { expect } from "chai";
 import { ethers } from "ethers";
 import hre from "hardhat";
-import { Contract } from "ethers";
+import { Contract, type Log, type LogDescription } from "ethers";
 import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { buildLayers, generateMerkleTree, hashRecord } from "../lib/services/merkleTree";
 
 describe("IoTData Contract", function () {
   let ioTDataContract: Contract;
@@ -152,4 +153,120 @@ describe("IoTData Contract", function () {
     await expect(ioTDataContract.getLatestDeviceData("non-existent-device"))
       .to.be.revertedWith("No records for this device");
   });
-});
\ No newline at end of file
+  
+  it("should verify records against a batch root built from on-chain data", async function () {
+    // An odd record count exercises the unpaired node at each level
+    for (const [deviceId, value] of [["device-006", 21], ["device-007", 22], ["device-006", 23]] as const) {
+      await ioTDataContract.storeData(deviceId, `{"value":${value}}`, "temperature", "field-3");
+    }
+    
+    const records = [];
+    for (let i = 0; i < 3; i++) {
+      const data = await ioTDataContract.getData(i);
+      records.push({
+        deviceId: data[0],
+        timestamp: Number(data[1]),
+        data: data[2],
+        dataType: data[3],
+        location: data[4]
+      });
+    }
+    
+    const { merkleRoot, leaves, proofs } = generateMerkleTree(records);
+    expect(leaves[0]).to.equal(hashRecord(records[0]));
+    
+    await ioTDataContract.createBatch(0, 2, merkleRoot, "Batch 0-2");
+    
+    for (let i = 0; i < records.length; i++) {
+      expect(await ioTDataContract.verifyRecord(i, merkleRoot, proofs[i])).to.equal(true);
+    }
+  });
+  
+  describe("storeDataBatch", function () {
+    const BATCH_SIZE = 10;
+    const deviceIds = Array.from({ length: BATCH_SIZE }, (_, i) => `device-${100 + (i % 3)}`);
+    const data = Array.from({ length: BATCH_SIZE }, (_, i) => `{"temperature":${20 + i},"unit":"celsius"}`);
+    const dataTypes = Array(BATCH_SIZE).fill("temperature");
+    const locations = Array(BATCH_SIZE).fill("greenhouse-1");
+    
+    it("should store every record and emit one DataStored per record", async function () {
+      const tx = await ioTDataContract.storeDataBatch(deviceIds, data, dataTypes, locations);
+      const receipt = await tx.wait();
+      
+      const events = receipt.logs
+        .map((log: Log) => ioTDataContract.interface.parseLog(log))
+        .filter((event: LogDescription | null) => event?.name === "DataStored");
+      expect(events.map((event: LogDescription) => event.args[0])).to.deep.equal(
+        Array.from({ length: BATCH_SIZE }, (_, i) => BigInt(i))
+      );
+      
+      expect(await ioTDataContract.getRecordCount()).to.equal(BigInt(BATCH_SIZE));
+      const record = await ioTDataContract.getData(BATCH_SIZE - 1);
+      expect(record[0]).to.equal(deviceIds[BATCH_SIZE - 1]);
+      expect(record[2]).to.equal(data[BATCH_SIZE - 1]);
+    });
+    
+    it("should yield the on-chain leaf from each DataStored event and the sent location", async function () {
+      const tx = await ioTDataContract.storeDataBatch(deviceIds, data, dataTypes, locations);
+      const receipt = await tx.wait();
+      
+      // Leaves as recorded at sync time, before any record is read back
+      const leaves = receipt.logs
+        .map((log: Log) => ioTDataContract.interface.parseLog(log))
+        .filter((event: LogDescription | null) => event?.name === "DataStored")
+        .map((event: LogDescription, i: number) => hashRecord({
+          deviceId: event.args[1],
+          timestamp: Number(event.args[2]),
+          data: event.args[4],
+          dataType: event.args[3],
+          location: locations[i]
+        }));
+      const merkleRoot = buildLayers(leaves).at(-1)![0];
+      
+      await ioTDataContract.createBatch(0, BATCH_SIZE - 1, merkleRoot, "Rollup");
+      const { proofs } = generateMerkleTree(await Promise.all(
+        Array.from({ length: BATCH_SIZE }, async (_, i) => {
+          const record = await ioTDataContract.getData(i);
+          return { deviceId: record[0], timestamp: Number(record[1]), data: record[2], dataType: record[3], location: record[4] };
+        })
+      ));
+      expect(await ioTDataContract.verifyRecord(3, merkleRoot, proofs[3])).to.equal(true);
+    });
+    
+    it("should revert when array lengths differ", async function () {
+      await expect(ioTDataContract.storeDataBatch(deviceIds, data.slice(1), dataTypes, locations))
+        .to.be.revertedWith("Array length mismatch");
+    });
+    
+    it("should revert for an empty batch", async function () {
+      await expect(ioTDataContract.storeDataBatch([], [], [], []))
+        .to.be.revertedWith("Empty batch");
+    });
+    
+    it("should revert for a batch over MAX_BATCH_SIZE", async function () {
+      const size = Number(await ioTDataContract.MAX_BATCH_SIZE()) + 1;
+      const fill = (value: string) => Array.from({ length: size }, () => value);
+      await expect(ioTDataContract.storeDataBatch(
+        fill(deviceIds[0]), fill(data[0]), fill(dataTypes[0]), fill(locations[0])
+      )).to.be.revertedWith("Batch too large");
+    });
+    
+    it("should revert without the device or admin role", async function () {
+      await expect((ioTDataContract.connect(addr1) as Contract).storeDataBatch(deviceIds, data, dataTypes, locations))
+        .to.be.revertedWith("Must have device or admin role");
+    });
+    
+    it("should use less gas than storing the same records one by one", async function () {
+      let singleGas = 0n;
+      for (let i = 0; i < BATCH_SIZE; i++) {
+        const tx = await ioTDataContract.storeData(deviceIds[i], data[i], dataTypes[i], locations[i]);
+        singleGas += (await tx.wait()).gasUsed;
+      }
+      
+      const tx = await ioTDataContract.storeDataBatch(deviceIds, data, dataTypes, locations);
+      const batchGas = (await tx.wait()).gasUsed;
+      
+      expect(batchGas < singleGas).to.equal(true);
+    });
+  });
+});